@@ -0,0 +1,195 @@
+import { describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Stream from "effect/Stream";
+import * as Chunk from "effect/Chunk";
+import { CopilotService } from "../services/CopilotService.ts";
+import {
+  chatEvents,
+  collectToolCalls,
+  completionEvents,
+  responsesEvents,
+  type ToolCallDelta,
+} from "./chat.ts";
+import type { CopilotModel } from "./models.ts";
+
+describe("chat tool calls", () => {
+  const model: CopilotModel = {
+    id: "gpt-4o",
+    name: "OpenAI GPT-4o",
+    tokenizer: "o200k_base",
+    max_input_tokens: 16000,
+    max_output_tokens: 16000,
+    streaming: true,
+    tools: true,
+    use_responses: false,
+  };
+
+  const stubCopilot = (chunks: unknown[], bodies: unknown[]) =>
+    CopilotService.of({
+      request: () => Effect.succeed({} as never),
+      stream: (_path, body) => {
+        bodies.push(body);
+        return Stream.fromIterable(chunks);
+      },
+    });
+
+  const tools = [
+    {
+      name: "run_shell",
+      description: "Run a command",
+      parameters: { type: "object", properties: { command: { type: "string" } } },
+    },
+  ];
+
+  test("assembles argument fragments into complete calls", () => {
+    const deltas: ToolCallDelta[] = [
+      { type: "tool_call", index: 0, id: "a", name: "run_shell", arguments: "" },
+      { type: "tool_call", index: 1, id: "b", name: "read_file", arguments: '{"pa' },
+      { type: "tool_call", index: 0, arguments: '{"command":' },
+      { type: "tool_call", index: 0, arguments: '"ls"}' },
+      { type: "tool_call", index: 1, arguments: 'th":"x"}' },
+    ];
+
+    expect(collectToolCalls(deltas)).toEqual([
+      { id: "a", name: "run_shell", arguments: '{"command":"ls"}' },
+      { id: "b", name: "read_file", arguments: '{"path":"x"}' },
+    ]);
+  });
+
+  test("sends tools and parses chat completion tool deltas", async () => {
+    const bodies: unknown[] = [];
+    const chunks = [
+      { choices: [{ delta: { content: "Checking" } }] },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                { index: 0, id: "call_1", function: { name: "run_shell", arguments: "{" } },
+              ],
+            },
+          },
+        ],
+      },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "}" } }] } }] },
+    ];
+
+    const events = await Effect.runPromise(
+      Stream.runCollect(chatEvents(model, [{ role: "user", content: "hi" }], { tools })).pipe(
+        Effect.provideService(CopilotService, stubCopilot(chunks, bodies)),
+      ),
+    );
+
+    const list = Chunk.toArray(events);
+    expect(list[0]).toEqual({ type: "text", text: "Checking" });
+    expect(
+      collectToolCalls(list.filter((e): e is ToolCallDelta => e.type === "tool_call")),
+    ).toEqual([{ id: "call_1", name: "run_shell", arguments: "{}" }]);
+    expect((bodies[0] as any).tools[0].function.name).toBe("run_shell");
+  });
+
+  test("parses function call events from the responses endpoint", async () => {
+    const bodies: unknown[] = [];
+    const chunks = [
+      {
+        type: "response.output_item.added",
+        output_index: 0,
+        item: { type: "function_call", call_id: "fc_1", name: "read_file", arguments: "" },
+      },
+      { type: "response.function_call_arguments.delta", output_index: 0, delta: '{"path":' },
+      { type: "response.function_call_arguments.delta", output_index: 0, delta: '"a.ts"}' },
+    ];
+
+    const events = await Effect.runPromise(
+      Stream.runCollect(
+        chatEvents({ ...model, use_responses: true }, [{ role: "user", content: "hi" }], {
+          tools,
+        }),
+      ).pipe(Effect.provideService(CopilotService, stubCopilot(chunks, bodies))),
+    );
+
+    expect(
+      collectToolCalls(
+        Chunk.toArray(events).filter((e): e is ToolCallDelta => e.type === "tool_call"),
+      ),
+    ).toEqual([{ id: "fc_1", name: "read_file", arguments: '{"path":"a.ts"}' }]);
+    expect((bodies[0] as any).tools[0]).toMatchObject({ type: "function", name: "run_shell" });
+  });
+
+  test("reports why the model stopped", async () => {
+    const finishes = (chunks: unknown[], responses = false) =>
+      Effect.runPromise(
+        Stream.runCollect(
+          chatEvents({ ...model, use_responses: responses }, [{ role: "user", content: "hi" }]),
+        ).pipe(Effect.provideService(CopilotService, stubCopilot(chunks, []))),
+      ).then((events) => Chunk.toArray(events).filter((e) => e.type === "finish"));
+
+    expect(
+      await finishes([
+        { choices: [{ delta: { content: "<patch" } }] },
+        { choices: [{ delta: {}, finish_reason: "length" }] },
+      ]),
+    ).toEqual([{ type: "finish", reason: "length" }]);
+    expect(
+      await finishes(
+        [
+          { type: "response.output_text.delta", delta: "<patch" },
+          {
+            type: "response.incomplete",
+            response: { incomplete_details: { reason: "max_output_tokens" } },
+          },
+        ],
+        true,
+      ),
+    ).toEqual([{ type: "finish", reason: "length" }]);
+    expect(
+      await finishes([{ type: "response.completed", response: { output: [] } }], true),
+    ).toEqual([{ type: "finish", reason: "stop" }]);
+  });
+
+  test("parses reasoning, usage, refusals and failures", () => {
+    expect(
+      completionEvents({
+        choices: [{ delta: { reasoning_text: "Thinking", refusal: "No." } }],
+      }),
+    ).toEqual([
+      { type: "reasoning", text: "Thinking" },
+      { type: "error", kind: "refusal", message: "No." },
+    ]);
+    expect(
+      completionEvents({
+        choices: [],
+        usage: { prompt_tokens: 12, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 8 } },
+      }),
+    ).toEqual([
+      { type: "usage", usage: { promptTokens: 12, completionTokens: 3, cachedTokens: 8 } },
+    ]);
+
+    expect(
+      responsesEvents({ type: "response.reasoning_summary_text.delta", delta: "Plan" }),
+    ).toEqual([{ type: "reasoning", text: "Plan" }]);
+    expect(
+      responsesEvents({
+        type: "response.completed",
+        response: {
+          output: [],
+          usage: {
+            input_tokens: 40,
+            input_tokens_details: { cached_tokens: 32 },
+            output_tokens: 9,
+            output_tokens_details: { reasoning_tokens: 5 },
+          },
+        },
+      }),
+    ).toEqual([
+      {
+        type: "usage",
+        usage: { promptTokens: 40, completionTokens: 9, cachedTokens: 32, reasoningTokens: 5 },
+      },
+      { type: "finish", reason: "stop" },
+    ]);
+    expect(
+      responsesEvents({ type: "response.failed", response: { error: { message: "overloaded" } } }),
+    ).toEqual([{ type: "error", kind: "failed", message: "overloaded" }]);
+  });
+});
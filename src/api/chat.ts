@@ -1,39 +1,158 @@
 import * as Stream from "effect/Stream";
 import * as Effect from "effect/Effect";
+import * as Option from "effect/Option";
 import type { CopilotModel } from "./models.ts";
 import { CopilotService } from "../services/CopilotService.ts";
 import { ApiError, AuthError, FsError, ParseError } from "../errors/index.ts";
 
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema describing the arguments object. */
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON arguments as produced by the model. */
+  arguments: string;
+}
+
 export interface ChatMessage {
-  role: "system" | "user" | "assistant";
+  role: "system" | "user" | "assistant" | "tool";
   content: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
 }
 
-export const chatStream = (
+export interface TextEvent {
+  type: "text";
+  text: string;
+}
+
+/** Reasoning the model shows before its answer; not part of the reply. */
+export interface ReasoningEvent {
+  type: "reasoning";
+  text: string;
+}
+
+export interface ToolCallDelta {
+  type: "tool_call";
+  index: number;
+  id?: string;
+  name?: string;
+  arguments: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Part of the prompt served from the prompt cache, when reported. */
+  cachedTokens?: number;
+  /** Part of the completion spent on reasoning, when reported. */
+  reasoningTokens?: number;
+}
+
+export interface UsageEvent {
+  type: "usage";
+  usage: TokenUsage;
+}
+
+/** Why the model stopped; "length" means the output limit cut it off. */
+export type FinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
+export interface FinishEvent {
+  type: "finish";
+  reason: FinishReason;
+}
+
+/**
+ * A refusal fragment, or a failure the endpoint reported inside the stream
+ * rather than as an HTTP error.
+ */
+export interface ErrorEvent {
+  type: "error";
+  kind: "refusal" | "failed";
+  message: string;
+}
+
+export type ChatEvent =
+  | TextEvent
+  | ReasoningEvent
+  | ToolCallDelta
+  | UsageEvent
+  | FinishEvent
+  | ErrorEvent;
+
+export interface ChatOptions {
+  temperature?: number;
+  tools?: ToolDefinition[];
+}
+
+type ChatStreamError = ApiError | AuthError | FsError | ParseError;
+
+export const chatEvents = (
   model: CopilotModel,
   messages: ChatMessage[],
-  options: { temperature?: number } = {},
-): Stream.Stream<
-  string,
-  ApiError | AuthError | FsError | ParseError,
-  CopilotService
-> => {
+  options: ChatOptions = {},
+): Stream.Stream<ChatEvent, ChatStreamError, CopilotService> => {
   if (model.use_responses) {
-    return Stream.catchAll(streamResponsesAPI(model, messages), () =>
+    return Stream.catchAll(streamResponsesAPI(model, messages, options), () =>
       streamChatCompletions(model, messages, options),
     );
   }
   return streamChatCompletions(model, messages, options);
 };
 
+export const chatStream = (
+  model: CopilotModel,
+  messages: ChatMessage[],
+  options: ChatOptions = {},
+): Stream.Stream<string, ChatStreamError, CopilotService> =>
+  Stream.filterMap(chatEvents(model, messages, options), (event) =>
+    event.type === "text" ? Option.some(event.text) : Option.none(),
+  );
+
+const toFinishReason = (reason: string): FinishReason =>
+  reason === "length" || reason === "max_output_tokens"
+    ? "length"
+    : reason === "tool_calls" || reason === "function_call"
+      ? "tool_calls"
+      : reason === "content_filter"
+        ? "content_filter"
+        : "stop";
+
+/**
+ * Joins streamed tool-call fragments (keyed by their output index) into
+ * complete calls, preserving the order in which the model started them.
+ */
+export function collectToolCalls(deltas: ToolCallDelta[]): ToolCall[] {
+  const calls = new Map<number, ToolCallDelta>();
+  for (const delta of deltas) {
+    const current = calls.get(delta.index);
+    const id = current?.id ?? delta.id;
+    const name = current?.name ?? delta.name;
+    calls.set(delta.index, {
+      type: "tool_call",
+      index: delta.index,
+      ...(id && { id }),
+      ...(name && { name }),
+      arguments: (current?.arguments ?? "") + delta.arguments,
+    });
+  }
+  return [...calls.values()].map((call) => ({
+    id: call.id ?? `call_${call.index}`,
+    name: call.name ?? "",
+    arguments: call.arguments,
+  }));
+}
+
 function streamResponsesAPI(
   model: CopilotModel,
   messages: ChatMessage[],
-): Stream.Stream<
-  string,
-  ApiError | AuthError | FsError | ParseError,
-  CopilotService
-> {
+  options: ChatOptions,
+): Stream.Stream<ChatEvent, ChatStreamError, CopilotService> {
   return Stream.unwrap(
     Effect.gen(function* () {
       const copilot = yield* CopilotService;
@@ -43,22 +162,20 @@ function streamResponsesAPI(
       const body = {
         model: model.id,
         stream: true,
-        input: inputMessages.map((m) => ({ role: m.role, content: m.content })),
+        input: inputMessages.flatMap(toResponsesInput),
         ...(systemMsg && { instructions: systemMsg.content }),
+        ...(options.tools?.length && {
+          tools: options.tools.map((tool) => ({
+            type: "function",
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          })),
+        }),
       };
 
-      return Stream.flatMap(
-        copilot.stream("/responses", body),
-        (chunk: any) => {
-          if (
-            chunk.type === "response.content.delta" ||
-            chunk.type === "response.output_text.delta"
-          ) {
-            const text = extractTextFromDelta(chunk.delta);
-            return text ? Stream.succeed(text) : Stream.empty;
-          }
-          return Stream.empty;
-        },
+      return Stream.flatMap(copilot.stream("/responses", body), (chunk) =>
+        Stream.fromIterable(responsesEvents(chunk)),
       );
     }),
   );
@@ -67,35 +184,232 @@ function streamResponsesAPI(
 function streamChatCompletions(
   model: CopilotModel,
   messages: ChatMessage[],
-  options: { temperature?: number },
-): Stream.Stream<
-  string,
-  ApiError | AuthError | FsError | ParseError,
-  CopilotService
-> {
+  options: ChatOptions,
+): Stream.Stream<ChatEvent, ChatStreamError, CopilotService> {
   return Stream.unwrap(
     Effect.gen(function* () {
       const copilot = yield* CopilotService;
       const body = {
         model: model.id,
         stream: true,
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
+        // The last chunk then carries the token usage.
+        stream_options: { include_usage: true },
+        messages: messages.map(toCompletionMessage),
         ...(options.temperature !== undefined && {
           temperature: options.temperature,
         }),
+        ...(options.tools?.length && {
+          tools: options.tools.map((tool) => ({
+            type: "function",
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters,
+            },
+          })),
+        }),
       };
 
-      return Stream.flatMap(
-        copilot.stream("/chat/completions", body),
-        (chunk: any) => {
-          const content = chunk.choices?.[0]?.delta?.content;
-          return content ? Stream.succeed(content) : Stream.empty;
-        },
+      return Stream.flatMap(copilot.stream("/chat/completions", body), (chunk) =>
+        Stream.fromIterable(completionEvents(chunk)),
       );
     }),
   );
 }
 
+/** Events carried by one chunk of a `/responses` stream. */
+export function responsesEvents(chunk: any): ChatEvent[] {
+  switch (chunk?.type) {
+    case "response.content.delta":
+    case "response.output_text.delta": {
+      const text = extractTextFromDelta(chunk.delta);
+      return text ? [{ type: "text", text }] : [];
+    }
+    case "response.reasoning_text.delta":
+    case "response.reasoning_summary_text.delta":
+      return chunk.delta ? [{ type: "reasoning", text: chunk.delta }] : [];
+    case "response.refusal.delta":
+      return chunk.delta
+        ? [{ type: "error", kind: "refusal", message: chunk.delta }]
+        : [];
+    case "response.output_item.added":
+      return chunk.item?.type === "function_call"
+        ? [
+            {
+              type: "tool_call",
+              index: chunk.output_index ?? 0,
+              ...(chunk.item.call_id && { id: chunk.item.call_id }),
+              ...(chunk.item.name && { name: chunk.item.name }),
+              arguments: chunk.item.arguments ?? "",
+            },
+          ]
+        : [];
+    case "response.function_call_arguments.delta":
+      return [
+        {
+          type: "tool_call",
+          index: chunk.output_index ?? 0,
+          arguments: chunk.delta ?? "",
+        },
+      ];
+    case "response.completed": {
+      const calls = (chunk.response?.output ?? []).some(
+        (item: any) => item?.type === "function_call",
+      );
+      return [
+        ...responsesUsage(chunk.response?.usage),
+        { type: "finish", reason: calls ? "tool_calls" : "stop" },
+      ];
+    }
+    case "response.incomplete":
+      return [
+        ...responsesUsage(chunk.response?.usage),
+        {
+          type: "finish",
+          reason: toFinishReason(
+            chunk.response?.incomplete_details?.reason ?? "length",
+          ),
+        },
+      ];
+    case "response.failed":
+    case "error":
+      return [
+        {
+          type: "error",
+          kind: "failed",
+          message:
+            chunk.response?.error?.message ??
+            chunk.message ??
+            "The response failed",
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+const responsesUsage = (usage: any): ChatEvent[] =>
+  usage
+    ? [
+        {
+          type: "usage",
+          usage: {
+            promptTokens: usage.input_tokens ?? 0,
+            completionTokens: usage.output_tokens ?? 0,
+            ...(usage.input_tokens_details?.cached_tokens !== undefined && {
+              cachedTokens: usage.input_tokens_details.cached_tokens,
+            }),
+            ...(usage.output_tokens_details?.reasoning_tokens !== undefined && {
+              reasoningTokens: usage.output_tokens_details.reasoning_tokens,
+            }),
+          },
+        },
+      ]
+    : [];
+
+/** Events carried by one chunk of a `/chat/completions` stream. */
+export function completionEvents(chunk: any): ChatEvent[] {
+  const choice = chunk?.choices?.[0];
+  const delta = choice?.delta;
+  const reasoning = delta?.reasoning_content ?? delta?.reasoning_text;
+  const usage = chunk?.usage;
+  return [
+    ...(reasoning ? [{ type: "reasoning", text: reasoning } as const] : []),
+    ...(delta?.content ? [{ type: "text", text: delta.content } as const] : []),
+    ...(delta?.refusal
+      ? [{ type: "error", kind: "refusal", message: delta.refusal } as const]
+      : []),
+    ...(delta?.tool_calls ?? []).map(
+      (call: any): ToolCallDelta => ({
+        type: "tool_call",
+        index: call.index ?? 0,
+        ...(call.id && { id: call.id }),
+        ...(call.function?.name && { name: call.function.name }),
+        arguments: call.function?.arguments ?? "",
+      }),
+    ),
+    ...(usage
+      ? [
+          {
+            type: "usage",
+            usage: {
+              promptTokens: usage.prompt_tokens ?? 0,
+              completionTokens: usage.completion_tokens ?? 0,
+              ...(usage.prompt_tokens_details?.cached_tokens !== undefined && {
+                cachedTokens: usage.prompt_tokens_details.cached_tokens,
+              }),
+              ...(usage.completion_tokens_details?.reasoning_tokens !==
+                undefined && {
+                reasoningTokens: usage.completion_tokens_details.reasoning_tokens,
+              }),
+            },
+          } as const,
+        ]
+      : []),
+    ...(choice?.finish_reason
+      ? [
+          {
+            type: "finish",
+            reason: toFinishReason(choice.finish_reason),
+          } as const,
+        ]
+      : []),
+    ...(chunk?.error
+      ? [
+          {
+            type: "error",
+            kind: "failed",
+            message: chunk.error.message ?? String(chunk.error),
+          } as const,
+        ]
+      : []),
+  ];
+}
+
+function toCompletionMessage(message: ChatMessage) {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: message.tool_call_id,
+      content: message.content,
+    };
+  }
+  if (message.tool_calls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.tool_calls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function toResponsesInput(message: ChatMessage): unknown[] {
+  if (message.role === "tool") {
+    return [
+      {
+        type: "function_call_output",
+        call_id: message.tool_call_id,
+        output: message.content,
+      },
+    ];
+  }
+  const calls = (message.tool_calls ?? []).map((call) => ({
+    type: "function_call",
+    call_id: call.id,
+    name: call.name,
+    arguments: call.arguments,
+  }));
+  return [
+    ...(message.content ? [{ role: message.role, content: message.content }] : []),
+    ...calls,
+  ];
+}
+
 function extractTextFromDelta(delta: any): string {
   if (typeof delta === "string") return delta;
   if (delta?.text) return delta.text;
@@ -105,4 +419,4 @@ function extractTextFromDelta(delta: any): string {
     if (delta.output_text.text) return delta.output_text.text;
   }
   return "";
-}
\ No newline at end of file
+}
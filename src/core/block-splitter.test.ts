@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { blankLineSplitter, splitBlocks } from "./block-splitter.ts";
+
+const texts = (content: string, file: string) =>
+  splitBlocks(content, file).map(({ start, end }) => content.slice(start, end));
+
+describe("block-splitter", () => {
+  const code = [
+    'import a from "a";',
+    'import b from "b"; // why b',
+    "",
+    "/** Adds. */",
+    "export function add(x: number, y: number) {",
+    "  const sum = x + y;",
+    "",
+    "  return sum;",
+    "}",
+    "const z = 1;",
+    "// end",
+    "",
+  ].join("\n");
+
+  test("makes one block per top-level declaration in TypeScript", () => {
+    expect(texts(code, "src/math.ts")).toEqual([
+      'import a from "a";\nimport b from "b"; // why b',
+      "/** Adds. */\nexport function add(x: number, y: number) {\n  const sum = x + y;\n\n  return sum;\n}",
+      "const z = 1;",
+      "// end",
+    ]);
+  });
+
+  test("falls back to blank lines for other languages", () => {
+    const python = "def a():\n    pass\n\n\ndef b():\n    pass\n";
+
+    expect(texts(python, "main.py")).toEqual([
+      "def a():\n    pass",
+      "def b():\n    pass",
+    ]);
+    expect(splitBlocks(code, "x.ts", [blankLineSplitter])).toHaveLength(3);
+  });
+});
@@ -0,0 +1,108 @@
+import path from "path";
+import ts from "typescript";
+
+/** Character range of a block; ranges never overlap and exclude trailing whitespace. */
+export interface BlockRange {
+  start: number;
+  end: number;
+}
+
+export interface BlockSplitter {
+  readonly name: string;
+  readonly supports: (file: string) => boolean;
+  readonly split: (content: string, file: string) => BlockRange[];
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ".ts": ts.ScriptKind.TS,
+  ".mts": ts.ScriptKind.TS,
+  ".cts": ts.ScriptKind.TS,
+  ".tsx": ts.ScriptKind.TSX,
+  ".js": ts.ScriptKind.JS,
+  ".mjs": ts.ScriptKind.JS,
+  ".cjs": ts.ScriptKind.JS,
+  ".jsx": ts.ScriptKind.JSX,
+};
+
+const trimRange = (content: string, start: number, end: number) => ({
+  start,
+  end: start + content.slice(start, end).trimEnd().length,
+});
+
+/** Splits on blank lines. */
+export const blankLineSplitter: BlockSplitter = {
+  name: "blank-line",
+  supports: () => true,
+  split: (content) => {
+    const separators = [...content.matchAll(/\n\n+/g)];
+    const starts = [0, ...separators.map((m) => m.index + m[0].length)];
+    const ends = [...separators.map((m) => m.index), content.length];
+    return starts
+      .map((start, i) => trimRange(content, start, ends[i]))
+      .filter(({ start, end }) => content.slice(start, end).trim());
+  },
+};
+
+/**
+ * One block per top-level statement, parsed with the TypeScript compiler.
+ * Leading comments belong to the statement below them, same-line trailing
+ * comments to the statement before, and consecutive imports share a block.
+ */
+export const typescriptSplitter: BlockSplitter = {
+  name: "typescript",
+  supports: (file) => path.extname(file).toLowerCase() in SCRIPT_KINDS,
+  split: (content, file) => {
+    const source = ts.createSourceFile(
+      file,
+      content,
+      ts.ScriptTarget.Latest,
+      false,
+      SCRIPT_KINDS[path.extname(file).toLowerCase()],
+    );
+
+    const leadingStart = (pos: number, fallback: number) =>
+      ts.getLeadingCommentRanges(content, pos)?.[0]?.pos ?? fallback;
+    const trailingEnd = (end: number) =>
+      ts.getTrailingCommentRanges(content, end)?.at(-1)?.end ?? end;
+
+    const units = source.statements.map((statement) => ({
+      start: leadingStart(statement.pos, statement.getStart(source)),
+      end: trailingEnd(statement.end),
+      isImport: ts.isImportDeclaration(statement),
+    }));
+
+    // Comments after the last statement form their own block.
+    const eof = source.endOfFileToken;
+    const tailStart = leadingStart(eof.pos, eof.end);
+    if (content.slice(tailStart, eof.end).trim()) {
+      units.push({ start: tailStart, end: eof.end, isImport: false });
+    }
+
+    const merged = units.reduce<typeof units>((acc, unit) => {
+      const last = acc.at(-1);
+      if (last?.isImport && unit.isImport) {
+        return [...acc.slice(0, -1), { ...last, end: unit.end }];
+      }
+      return [...acc, unit];
+    }, []);
+
+    return merged.map(({ start, end }) => trimRange(content, start, end));
+  },
+};
+
+export const DEFAULT_SPLITTERS: BlockSplitter[] = [
+  typescriptSplitter,
+  blankLineSplitter,
+];
+
+/** Splits `content` with the first splitter that supports `file`. */
+export function splitBlocks(
+  content: string,
+  file: string,
+  splitters: BlockSplitter[] = DEFAULT_SPLITTERS,
+): BlockRange[] {
+  const splitter =
+    splitters.find((candidate) => candidate.supports(file)) ??
+    blankLineSplitter;
+  return splitter.split(content, file);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { chunkByBudget, formatBudget, planBudget } from "./budget-planner.ts";
+
+const model = { id: "big", max_input_tokens: 10000, max_output_tokens: 4000 };
+const compactor = {
+  id: "fast",
+  max_input_tokens: 50000,
+  max_output_tokens: 4000,
+};
+
+const input = {
+  model,
+  compactor,
+  instructionTokens: 1000,
+  compactorInstructionTokens: 500,
+  contextTokens: 5000,
+  rankedTokens: 5000,
+  editableTokens: 1000,
+};
+
+describe("planBudget", () => {
+  test("sends everything when the context fits", () => {
+    const plan = planBudget(input);
+    expect(plan.strategy).toBe("full");
+    expect(plan.contextBudget).toBe(8000);
+    expect(plan.outputReserve).toBe(1200);
+  });
+
+  test("falls back to local ranking, then the compactor", () => {
+    expect(
+      planBudget({ ...input, contextTokens: 20000, rankedTokens: 7000 })
+        .strategy,
+    ).toBe("local");
+    expect(
+      planBudget({ ...input, contextTokens: 20000, rankedTokens: 15000 })
+        .strategy,
+    ).toBe("llm");
+  });
+
+  test("splits into passes when nothing else fits", () => {
+    expect(
+      planBudget({
+        ...input,
+        contextTokens: 90000,
+        rankedTokens: 60000,
+      }).strategy,
+    ).toBe("multi-pass");
+    const { compactor: _, ...withoutCompactor } = input;
+    expect(
+      planBudget({
+        ...withoutCompactor,
+        contextTokens: 20000,
+        rankedTokens: 15000,
+      }).strategy,
+    ).toBe("multi-pass");
+  });
+
+  test("splits into passes when the patches would overflow the output", () => {
+    const plan = planBudget({ ...input, editableTokens: 5000 });
+    expect(plan.strategy).toBe("multi-pass");
+    expect(plan.outputReserve).toBe(4000);
+    expect(plan.passBudget).toBe(3333);
+  });
+
+  test("prints the breakdown and the chosen strategy", () => {
+    const text = formatBudget(planBudget(input));
+    expect(text).toContain("Token budget for big:");
+    expect(text).toMatch(/context budget\s+8000/);
+    expect(text).toContain("→ send the full context");
+  });
+});
+
+describe("chunkByBudget", () => {
+  test("fills chunks in order without exceeding the budget", () => {
+    expect(chunkByBudget([3, 4, 2, 6, 1], (n) => n, 7)).toEqual([
+      [3, 4],
+      [2],
+      [6, 1],
+    ]);
+  });
+
+  test("gives oversized items a chunk of their own", () => {
+    expect(chunkByBudget([2, 9, 2], (n) => n, 5)).toEqual([[2], [9], [2]]);
+  });
+});
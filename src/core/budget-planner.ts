@@ -0,0 +1,150 @@
+import type { CopilotModel } from "../api/models.ts";
+
+export type BudgetStrategy = "full" | "local" | "llm" | "multi-pass";
+
+type ModelLimits = Pick<
+  CopilotModel,
+  "id" | "max_input_tokens" | "max_output_tokens"
+>;
+
+export interface BudgetInput {
+  model: ModelLimits;
+  /** Model that would run LLM compaction, if one is available. */
+  compactor?: ModelLimits;
+  /** Tokens of the editing prompt without its context. */
+  instructionTokens: number;
+  /** Tokens of the compacting prompt without its context. */
+  compactorInstructionTokens: number;
+  contextTokens: number;
+  /** Context left after local ranking dropped unrelated blocks. */
+  rankedTokens: number;
+  /** Tokens of the code the task is expected to rewrite. */
+  editableTokens: number;
+}
+
+export interface BudgetPlan {
+  strategy: BudgetStrategy;
+  model: string;
+  inputLimit: number;
+  outputLimit: number;
+  instructionTokens: number;
+  /** Room left for context once the instructions are in. */
+  contextBudget: number;
+  contextTokens: number;
+  rankedTokens: number;
+  /** Output the patches are expected to need. */
+  outputReserve: number;
+  /** Largest context one pass may carry so its patches fit the output limit. */
+  passBudget: number;
+}
+
+/** Share of a model's input limit a request may fill; the rest absorbs count drift. */
+const INPUT_SAFETY = 0.9;
+/** Patches restate whole blocks, plus a summary. */
+const OUTPUT_FACTOR = 1.2;
+const MIN_OUTPUT_RESERVE = 1024;
+
+/** Room a request to `model` leaves for context next to its instructions. */
+export const inputBudget = (model: ModelLimits, instructions: number) =>
+  Math.max(0, Math.floor(model.max_input_tokens * INPUT_SAFETY) - instructions);
+
+/**
+ * Chooses how to fit a refactor into the model's windows: send everything,
+ * send what local ranking kept, let a compactor model trim it further, or
+ * split the work into passes. Splitting also happens when the patches for the
+ * editable code would not fit the output limit.
+ */
+export function planBudget(input: BudgetInput): BudgetPlan {
+  const { model } = input;
+  const contextBudget = inputBudget(model, input.instructionTokens);
+  const outputReserve = Math.min(
+    model.max_output_tokens,
+    Math.max(
+      MIN_OUTPUT_RESERVE,
+      Math.ceil(input.editableTokens * OUTPUT_FACTOR),
+    ),
+  );
+  const outputFits =
+    Math.ceil(input.editableTokens * OUTPUT_FACTOR) <= model.max_output_tokens;
+  const compactorFits =
+    input.compactor !== undefined &&
+    input.rankedTokens <=
+      inputBudget(input.compactor, input.compactorInstructionTokens);
+
+  const strategy: BudgetStrategy = !outputFits
+    ? "multi-pass"
+    : input.contextTokens <= contextBudget
+      ? "full"
+      : input.rankedTokens <= contextBudget
+        ? "local"
+        : compactorFits
+          ? "llm"
+          : "multi-pass";
+
+  return {
+    strategy,
+    model: model.id,
+    inputLimit: model.max_input_tokens,
+    outputLimit: model.max_output_tokens,
+    instructionTokens: input.instructionTokens,
+    contextBudget,
+    contextTokens: input.contextTokens,
+    rankedTokens: input.rankedTokens,
+    outputReserve,
+    passBudget: Math.min(
+      contextBudget,
+      Math.floor(model.max_output_tokens / OUTPUT_FACTOR),
+    ),
+  };
+}
+
+const STRATEGY_LABELS: Record<BudgetStrategy, string> = {
+  full: "send the full context",
+  local: "send the locally ranked context",
+  llm: "compact with a model, then edit",
+  "multi-pass": "split into passes",
+};
+
+export function formatBudget(plan: BudgetPlan): string {
+  const rows: [string, number][] = [
+    ["input limit", plan.inputLimit],
+    ["instructions", plan.instructionTokens],
+    ["context budget", plan.contextBudget],
+    ["full context", plan.contextTokens],
+    ["ranked context", plan.rankedTokens],
+    ["output limit", plan.outputLimit],
+    ["output reserve", plan.outputReserve],
+  ];
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return [
+    `Token budget for ${plan.model}:`,
+    ...rows.map(
+      ([label, value]) =>
+        `  ${label.padEnd(width)}  ${String(value).padStart(7)}`,
+    ),
+    `  → ${STRATEGY_LABELS[plan.strategy]}`,
+  ].join("\n");
+}
+
+/**
+ * Splits items into consecutive chunks whose sizes stay within `budget`. An
+ * item larger than the budget gets a chunk of its own.
+ */
+export function chunkByBudget<T>(
+  items: T[],
+  size: (item: T) => number,
+  budget: number,
+): T[][] {
+  return items.reduce<{ chunks: T[][]; used: number }>(
+    ({ chunks, used }, item) => {
+      const cost = size(item);
+      const current = chunks.at(-1);
+      if (current && used + cost <= budget) {
+        current.push(item);
+        return { chunks, used: used + cost };
+      }
+      return { chunks: [...chunks, [item]], used: cost };
+    },
+    { chunks: [], used: 0 },
+  ).chunks;
+}
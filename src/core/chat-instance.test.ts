@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Stream from "effect/Stream";
+import type { ChatMessage } from "../api/chat.ts";
+import type { CopilotModel } from "../api/models.ts";
+import { ApiError, TruncatedError } from "../errors/index.ts";
+import { CopilotService } from "../services/CopilotService.ts";
+import { CopilotChatInstance, joinContinuation } from "./chat-instance.ts";
+
+const model: CopilotModel = {
+  id: "gpt-4o",
+  name: "OpenAI GPT-4o",
+  tokenizer: "o200k_base",
+  max_input_tokens: 16000,
+  max_output_tokens: 16000,
+  streaming: true,
+  tools: false,
+  use_responses: false,
+};
+
+/** Answers each request with the next text, cut off unless it is the last. */
+const stubCopilot = (answers: string[], bodies: any[]) =>
+  CopilotService.of({
+    request: () => Effect.succeed({} as never),
+    stream: (_path, body) => {
+      bodies.push(body);
+      const text = answers[bodies.length - 1] ?? "";
+      const reason = bodies.length < answers.length ? "length" : "stop";
+      return Stream.fromIterable([
+        { choices: [{ delta: { content: text } }] },
+        { choices: [{ delta: {}, finish_reason: reason }] },
+      ]);
+    },
+  });
+
+describe("CopilotChatInstance", () => {
+  test("joins a continuation, dropping text it repeats", () => {
+    expect(joinContinuation('<patch block="1">', "\nconst a = 1;")).toBe(
+      '<patch block="1">\nconst a = 1;',
+    );
+    expect(
+      joinContinuation("export function load", "export function loadUser() {}"),
+    ).toBe("export function loadUser() {}");
+  });
+
+  test("continues a cut-off response and keeps one assistant turn", async () => {
+    const bodies: any[] = [];
+    const chat = new CopilotChatInstance(
+      stubCopilot(['<patch block="1">const a', " = 1;</patch>"], bodies),
+      model,
+    );
+
+    const response = await Effect.runPromise(
+      chat.ask("edit", {
+        stream: false,
+        continuations: 2,
+        requireComplete: true,
+      }),
+    );
+
+    expect(response).toBe('<patch block="1">const a = 1;</patch>');
+    expect(bodies[1].messages.at(-1).content).toContain("cut off");
+    expect(chat.getHistory()).toEqual([
+      { role: "user", content: "edit" },
+      { role: "assistant", content: response },
+    ]);
+  });
+
+  test("tracks every request, estimating usage the API did not report", async () => {
+    const tracked: unknown[] = [];
+    const chat = new CopilotChatInstance(
+      stubCopilot(["partial", " rest"], []),
+      model,
+      {
+        usage: (id, usage) => Effect.sync(() => tracked.push({ id, usage })),
+      },
+    );
+
+    const response = await Effect.runPromise(
+      chat.send([{ role: "user", content: "go" }], {
+        stream: false,
+        continuations: 1,
+      }),
+    );
+
+    expect(tracked).toHaveLength(2);
+    expect(tracked[0]).toMatchObject({
+      id: "gpt-4o",
+      usage: { estimated: true },
+    });
+    expect(response.usage.estimated).toBe(true);
+    expect(response.usage.completionTokens).toBeGreaterThan(0);
+  });
+
+  test("rejects a response that stays cut off and forgets the turn", async () => {
+    const chat = new CopilotChatInstance(
+      stubCopilot(["<patch", " block", "=1"], []),
+      model,
+    );
+    const earlier: ChatMessage[] = [
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "hello" },
+    ];
+    chat.setHistory(earlier);
+
+    const error = await Effect.runPromise(
+      Effect.flip(
+        chat.ask("edit", {
+          stream: false,
+          continuations: 1,
+          requireComplete: true,
+        }),
+      ),
+    );
+
+    expect(error).toBeInstanceOf(TruncatedError);
+    expect(chat.getHistory()).toEqual(earlier);
+  });
+
+  test("reports usage and hands reasoning to its callback", async () => {
+    const reasoning: string[] = [];
+    const copilot = CopilotService.of({
+      request: () => Effect.succeed({} as never),
+      stream: () =>
+        Stream.fromIterable([
+          { choices: [{ delta: { reasoning_content: "Short answer." } }] },
+          { choices: [{ delta: { content: "42" }, finish_reason: "stop" }] },
+          { choices: [], usage: { prompt_tokens: 7, completion_tokens: 2 } },
+        ]),
+    });
+    const chat = new CopilotChatInstance(copilot, model);
+
+    const response = await Effect.runPromise(
+      chat.send([{ role: "user", content: "answer?" }], {
+        onChunk: () => Effect.void,
+        onReasoning: (text) => Effect.sync(() => reasoning.push(text)),
+      }),
+    );
+
+    expect(response.content).toBe("42");
+    expect(response.usage).toEqual({
+      promptTokens: 7,
+      completionTokens: 2,
+      estimated: false,
+    });
+    expect(reasoning).toEqual(["Short answer."]);
+  });
+
+  test("fails when the model refuses", async () => {
+    const copilot = CopilotService.of({
+      request: () => Effect.succeed({} as never),
+      stream: () =>
+        Stream.fromIterable([
+          { choices: [{ delta: { refusal: "I can't help with that." } }] },
+        ]),
+    });
+
+    const error = await Effect.runPromise(
+      Effect.flip(new CopilotChatInstance(copilot, model).ask("do it")),
+    );
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.message).toContain("I can't help with that.");
+  });
+});
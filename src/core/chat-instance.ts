@@ -1,82 +1,412 @@
 import * as Stream from "effect/Stream";
 import * as Effect from "effect/Effect";
-import { chatStream, type ChatMessage } from "../api/chat.ts";
+import {
+  chatEvents,
+  collectToolCalls,
+  type ChatEvent,
+  type ChatMessage,
+  type FinishReason,
+  type TokenUsage,
+  type ToolCall,
+  type ToolCallDelta,
+  type ToolDefinition,
+} from "../api/chat.ts";
 import type { CopilotModel } from "../api/models.ts";
 import { CopilotService, type Copilot } from "../services/CopilotService.ts";
+import type {
+  RequestUsage,
+  UsageTracker,
+} from "../services/UsageService.ts";
+import {
+  DEFAULT_CONTEXT_THRESHOLD,
+  dropOldestTurns,
+  formatTranscript,
+  measureMessages,
+  splitTurns,
+  truncateOutputs,
+  type ContextWindowOptions,
+} from "./context-window.ts";
 import {
   ApiError,
   AuthError,
   FsError,
   ParseError,
   HighlightError,
+  TruncatedError,
 } from "../errors/index.ts";
 
 export interface AskOptions {
   system?: string;
   temperature?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
   onChunk?: (chunk: string) => Effect.Effect<void, HighlightError>;
+  /** Receives reasoning deltas while streaming; they are not part of the reply. */
+  onReasoning?: (chunk: string) => Effect.Effect<void, HighlightError>;
+  /** Times to ask the model to go on when its output limit cuts it off. */
+  continuations?: number;
+  /** Fail with a TruncatedError when the response is still cut off. */
+  requireComplete?: boolean;
+}
+
+export interface ChatResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  finishReason: FinishReason;
+  /** Tokens of the turn, continuations included. */
+  usage: RequestUsage;
+}
+
+/** What one request's events add up to. */
+interface TurnState {
+  content: string;
+  deltas: ToolCallDelta[];
+  finishReason: FinishReason;
+  usage?: TokenUsage;
+  refusal: string;
+  failure?: string;
+}
+
+const EMPTY_TURN: TurnState = {
+  content: "",
+  deltas: [],
+  finishReason: "stop",
+  refusal: "",
+};
+
+const foldEvent = (acc: TurnState, event: ChatEvent): TurnState => {
+  switch (event.type) {
+    case "text":
+      return { ...acc, content: acc.content + event.text };
+    case "tool_call":
+      return { ...acc, deltas: [...acc.deltas, event] };
+    case "usage":
+      return { ...acc, usage: event.usage };
+    case "finish":
+      return { ...acc, finishReason: event.reason };
+    case "error":
+      return event.kind === "refusal"
+        ? { ...acc, refusal: acc.refusal + event.message }
+        : { ...acc, failure: event.message };
+    case "reasoning":
+      return acc;
+  }
+};
+
+const addUsage = (a: RequestUsage, b: RequestUsage): RequestUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  ...((a.cachedTokens ?? b.cachedTokens) !== undefined && {
+    cachedTokens: (a.cachedTokens ?? 0) + (b.cachedTokens ?? 0),
+  }),
+  ...((a.reasoningTokens ?? b.reasoningTokens) !== undefined && {
+    reasoningTokens: (a.reasoningTokens ?? 0) + (b.reasoningTokens ?? 0),
+  }),
+  estimated: a.estimated || b.estimated,
+});
+
+/** The usage the endpoint reported, or a local estimate when it sent none. */
+const measureUsage = (
+  reported: TokenUsage | undefined,
+  messages: ChatMessage[],
+  reply: ChatMessage,
+  model: CopilotModel,
+): RequestUsage =>
+  reported
+    ? { ...reported, estimated: false }
+    : {
+        promptTokens: measureMessages(messages, model),
+        completionTokens: measureMessages([reply], model),
+        estimated: true,
+      };
+
+export interface ChatInstanceOptions {
+  context?: ContextWindowOptions;
+  /** Model used by the "summarize" strategy; defaults to the chat model. */
+  summaryModel?: CopilotModel;
+  /** Records the token usage of every request, summaries included. */
+  usage?: UsageTracker;
+}
+
+type RequestError = ApiError | AuthError | FsError | ParseError;
+type AskError = RequestError | HighlightError | TruncatedError;
+
+const SUMMARY_PROMPT = `You compress chat transcripts.
+
+Summarize the conversation you are given so that the assistant can continue it without the original messages.
+Keep every fact, decision, file path, command and important command result. Drop pleasantries.
+If an earlier summary is included, merge it into yours. Output only the summary.`;
+
+// Turns always sent verbatim when older turns get summarized.
+const RECENT_TURNS = 2;
+
+/** Continuations the tools allow before giving up on a cut-off response. */
+export const DEFAULT_CONTINUATIONS = 2;
+
+const CONTINUE_PROMPT = `Your previous response was cut off by the output limit. Continue exactly where it stopped, without repeating anything or adding commentary.`;
+
+// Bounds on the text a continuation may repeat from the end of the cut-off one.
+const MIN_OVERLAP = 12;
+const MAX_OVERLAP = 400;
+
+/** Joins a cut-off response and its continuation, dropping repeated text. */
+export function joinContinuation(partial: string, rest: string): string {
+  const longest = Math.min(MAX_OVERLAP, partial.length, rest.length);
+  for (let size = longest; size >= MIN_OVERLAP; size--) {
+    if (partial.endsWith(rest.slice(0, size))) {
+      return partial + rest.slice(size);
+    }
+  }
+  return partial + rest;
 }
 
 export class CopilotChatInstance {
   private copilot: Copilot;
   private model: CopilotModel;
   private history: ChatMessage[] = [];
+  private options: ChatInstanceOptions;
+  // Earlier history folded into a summary: `covered` messages replaced by `text`.
+  private summary: { covered: number; text: string } | null = null;
 
-  constructor(copilot: Copilot, model: CopilotModel) {
+  constructor(
+    copilot: Copilot,
+    model: CopilotModel,
+    options: ChatInstanceOptions = {},
+  ) {
     this.copilot = copilot;
     this.model = model;
+    this.options = options;
   }
 
   ask(
     userMessage: string,
     options: AskOptions = {},
-  ): Effect.Effect<
-    string,
-    ApiError | AuthError | FsError | ParseError | HighlightError
-  > {
-    const messages: ChatMessage[] = [];
+  ): Effect.Effect<string, AskError> {
+    return Effect.map(
+      this.send([{ role: "user", content: userMessage }], options),
+      (response) => response.content,
+    );
+  }
 
-    if (options.system) {
-      messages.push({ role: "system", content: options.system });
-    }
+  /**
+   * Appends `input` (user or tool messages) to the conversation and requests
+   * the next assistant turn, which may contain tool calls instead of text.
+   * A turn cut off by the output limit is continued up to
+   * `options.continuations` times and stored as one message. When
+   * `options.requireComplete` rejects the turn, the history is left as it was.
+   */
+  send(
+    input: ChatMessage[],
+    options: AskOptions = {},
+  ): Effect.Effect<ChatResponse, AskError> {
+    const system: ChatMessage[] = options.system
+      ? [{ role: "system", content: options.system }]
+      : [];
 
-    messages.push(...this.history);
-    messages.push({ role: "user", content: userMessage });
+    return Effect.suspend(() => {
+      const start = this.history.length;
+      const window = this.fitHistory([...system, ...input]);
+      return Effect.flatMap(window, (kept) =>
+        this.request([...system, ...kept, ...input], input, options),
+      ).pipe(
+        Effect.provideService(
+          CopilotService,
+          CopilotService.of(this.copilot),
+        ),
+        Effect.flatMap((response) =>
+          this.continueTruncated(response, options),
+        ),
+        Effect.filterOrFail(
+          (response) =>
+            !options.requireComplete || response.finishReason !== "length",
+          () => {
+            this.history.splice(start);
+            return new TruncatedError(
+              `The response of ${this.model.id} was cut off by its output limit`,
+            );
+          },
+        ),
+      );
+    });
+  }
 
+  private continueTruncated(
+    response: ChatResponse,
+    options: AskOptions,
+  ): Effect.Effect<ChatResponse, AskError> {
+    const remaining = options.continuations ?? 0;
+    if (
+      response.finishReason !== "length" ||
+      response.toolCalls.length > 0 ||
+      remaining <= 0
+    ) {
+      return Effect.succeed(response);
+    }
+    const truncated = this.history.length - 1;
+    return Effect.map(
+      this.send([{ role: "user", content: CONTINUE_PROMPT }], {
+        ...options,
+        continuations: remaining - 1,
+        requireComplete: false,
+      }),
+      (rest) => {
+        // Fold the continuation request and its answer into the cut-off turn.
+        const content = joinContinuation(response.content, rest.content);
+        this.history.splice(truncated, Infinity, {
+          role: "assistant",
+          content,
+          ...(rest.toolCalls.length > 0 && { tool_calls: rest.toolCalls }),
+        });
+        return { ...rest, content, usage: addUsage(response.usage, rest.usage) };
+      },
+    );
+  }
+
+  private request(
+    messages: ChatMessage[],
+    input: ChatMessage[],
+    options: AskOptions,
+  ): Effect.Effect<ChatResponse, AskError, CopilotService> {
     const shouldStream = options.stream !== false;
 
-    const stream = chatStream(
-      this.model,
-      messages,
-      options.temperature !== undefined
-        ? { temperature: options.temperature }
-        : {},
-    );
+    const stream = chatEvents(this.model, messages, {
+      ...(options.temperature !== undefined && {
+        temperature: options.temperature,
+      }),
+      ...(options.tools && { tools: options.tools }),
+    });
 
     const withSideEffects = shouldStream
-      ? Stream.tap(stream, (chunk) =>
-          options.onChunk
-            ? options.onChunk(chunk)
-            : Effect.sync(() => process.stdout.write(chunk)),
-        )
+      ? Stream.tap(stream, (event) => {
+          if (event.type === "reasoning") {
+            return options.onReasoning?.(event.text) ?? Effect.void;
+          }
+          if (event.type !== "text") return Effect.void;
+          return options.onChunk
+            ? options.onChunk(event.text)
+            : Effect.sync(() => process.stdout.write(event.text));
+        })
       : stream;
 
-    const aggregated = Stream.runFold(
-      withSideEffects,
-      "",
-      (acc, chunk) => acc + chunk,
-    );
+    const aggregated = Stream.runFold(withSideEffects, EMPTY_TURN, foldEvent);
 
-    return Effect.map(aggregated, (fullResponse) => {
-      if (shouldStream && fullResponse && !options.onChunk) {
+    return Effect.flatMap(aggregated, (turn) => {
+      const { content, finishReason } = turn;
+      if (turn.failure !== undefined) {
+        return Effect.fail(new ApiError(turn.failure));
+      }
+      const toolCalls = collectToolCalls(turn.deltas);
+      if (turn.refusal && !content && toolCalls.length === 0) {
+        return Effect.fail(
+          new ApiError(`${this.model.id} refused: ${turn.refusal}`),
+        );
+      }
+      if (shouldStream && content && !options.onChunk) {
         process.stdout.write("\n");
       }
-      this.history.push({ role: "user", content: userMessage });
-      this.history.push({ role: "assistant", content: fullResponse });
-      return fullResponse;
-    }).pipe(
-      Effect.provideService(CopilotService, CopilotService.of(this.copilot)),
+      const reply: ChatMessage = {
+        role: "assistant",
+        content,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      };
+      this.history.push(...input, reply);
+      const usage = measureUsage(turn.usage, messages, reply, this.model);
+      return this.track(this.model, usage).pipe(
+        Effect.as({ content, toolCalls, finishReason, usage }),
+      );
+    });
+  }
+
+  private track(model: CopilotModel, usage: RequestUsage): Effect.Effect<void> {
+    return this.options.usage?.(model.id, usage) ?? Effect.void;
+  }
+
+  /**
+   * Returns the part of the history that fits next to `pinned` (system prompt
+   * and new input) within the model's input limit, applying the configured
+   * strategy once the full history no longer fits.
+   */
+  private fitHistory(
+    pinned: ChatMessage[],
+  ): Effect.Effect<ChatMessage[], RequestError, CopilotService> {
+    const { strategy = "drop-oldest", threshold = DEFAULT_CONTEXT_THRESHOLD } =
+      this.options.context ?? {};
+    const limit = Math.floor(this.model.max_input_tokens * threshold);
+    const model = this.model;
+    const budget = limit - measureMessages(pinned, model);
+    const window = this.windowedHistory();
+
+    if (measureMessages(window, model) <= budget) return Effect.succeed(window);
+
+    switch (strategy) {
+      case "drop-oldest":
+        return Effect.succeed(dropOldestTurns(window, budget, model));
+      case "truncate-outputs":
+        return Effect.succeed(truncateOutputs(window, budget, model));
+      case "summarize":
+        return this.summarizeOlderTurns().pipe(
+          Effect.map(() =>
+            dropOldestTurns(this.windowedHistory(), budget, model),
+          ),
+          Effect.catchAll(() =>
+            Effect.succeed(dropOldestTurns(window, budget, model)),
+          ),
+        );
+    }
+  }
+
+  private windowedHistory(): ChatMessage[] {
+    if (!this.summary) return this.history;
+    return [
+      {
+        role: "user",
+        content: `[Summary of the earlier conversation]
+${this.summary.text}`,
+      },
+      { role: "assistant", content: "Understood. Continuing from there." },
+      ...this.history.slice(this.summary.covered),
+    ];
+  }
+
+  private summarizeOlderTurns(): Effect.Effect<
+    void,
+    RequestError,
+    CopilotService
+  > {
+    const covered = this.summary?.covered ?? 0;
+    const turns = splitTurns(this.history.slice(covered));
+    const older = turns.slice(0, -RECENT_TURNS).flat();
+    if (older.length === 0) return Effect.void;
+
+    const model = this.options.summaryModel ?? this.model;
+    const earlier = this.summary
+      ? `Earlier summary:
+${this.summary.text}
+
+`
+      : "";
+    const transcript = formatTranscript(
+      truncateOutputs(older, Math.floor(model.max_input_tokens * 0.8), model),
+    );
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: SUMMARY_PROMPT },
+      { role: "user", content: `${earlier}Transcript:
+${transcript}` },
+    ];
+
+    return Stream.runFold(chatEvents(model, messages), EMPTY_TURN, foldEvent).pipe(
+      Effect.flatMap((turn) => {
+        this.summary = {
+          covered: covered + older.length,
+          text: turn.content.trim(),
+        };
+        const reply: ChatMessage = { role: "assistant", content: turn.content };
+        return this.track(
+          model,
+          measureUsage(turn.usage, messages, reply, model),
+        );
+      }),
     );
   }
 
@@ -84,8 +414,18 @@ export class CopilotChatInstance {
     return [...this.history];
   }
 
+  setHistory(messages: ChatMessage[]): void {
+    this.history = [...messages];
+    this.summary = null;
+  }
+
   clearHistory(): void {
     this.history = [];
+    this.summary = null;
+  }
+
+  getModel(): CopilotModel {
+    return this.model;
   }
 
   setModel(model: CopilotModel): void {
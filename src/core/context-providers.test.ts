@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, realpath, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  createContextProviders,
+  findDependencies,
+} from "./context-providers.ts";
+
+describe("context-providers", () => {
+  let root = "";
+  const file = (rel: string) => path.join(root, rel);
+  const deps = (rel: string, content: string) =>
+    findDependencies(createContextProviders(root), file(rel), content)
+      .map((dep) => path.relative(root, dep))
+      .sort();
+
+  beforeAll(async () => {
+    root = await realpath(await mkdtemp(path.join(os.tmpdir(), "providers-")));
+    const files: Record<string, string> = {
+      "app/__init__.py": "",
+      "app/models.py": "",
+      "app/services/__init__.py": "",
+      "app/services/billing.py": "",
+      "go.mod": "module example.com/shop\n\ngo 1.22\n",
+      "internal/cart/cart.go": "package cart",
+      "internal/cart/cart_test.go": "package cart",
+      "Cargo.toml": '[package]\nname = "shop"',
+      "src/config.rs": "",
+      "src/db/mod.rs": "",
+      "src/db/pool.rs": "",
+      "include/util.h": "",
+      "native/vec.h": "",
+    };
+    for (const [rel, contents] of Object.entries(files)) {
+      await mkdir(path.dirname(file(rel)), { recursive: true });
+      await writeFile(file(rel), contents);
+    }
+  });
+
+  afterAll(async () => {
+    if (root) await rm(root, { recursive: true, force: true });
+  });
+
+  test("follows Python absolute and relative imports", () => {
+    const source =
+      "import os\nfrom app import models\nfrom .services import (\n  billing,\n)\n";
+
+    expect(deps("app/main.py", source)).toEqual([
+      "app/__init__.py",
+      "app/models.py",
+      "app/services/__init__.py",
+      "app/services/billing.py",
+    ]);
+  });
+
+  test("follows Go packages inside the module", () => {
+    const source =
+      'package main\n\nimport (\n\t"fmt"\n\t"example.com/shop/internal/cart"\n)\n';
+
+    expect(deps("cmd/main.go", source)).toEqual(["internal/cart/cart.go"]);
+  });
+
+  test("follows Rust mod declarations and crate paths", () => {
+    const source = "mod config;\nuse crate::db::{pool, Conn};\nuse std::io;\n";
+
+    expect(deps("src/main.rs", source)).toEqual([
+      "src/config.rs",
+      "src/db/mod.rs",
+      "src/db/pool.rs",
+    ]);
+  });
+
+  test("follows quoted C includes", () => {
+    const source = '#include <stdio.h>\n#include "vec.h"\n#include "util.h"\n';
+
+    expect(deps("native/main.c", source)).toEqual([
+      "include/util.h",
+      "native/vec.h",
+    ]);
+  });
+});
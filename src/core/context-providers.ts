@@ -0,0 +1,307 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import path from "path";
+import ts from "typescript";
+import { createModuleResolver } from "./module-resolver.ts";
+
+/**
+ * Finds the files a source file depends on. Returned paths are absolute;
+ * paths that do not exist are reported to the user as missing imports, so
+ * providers only return them for imports that must be local (relative
+ * paths, explicit markers).
+ */
+export interface ContextProvider {
+  readonly name: string;
+  readonly supports: (file: string) => boolean;
+  readonly dependencies: (file: string, content: string) => string[];
+}
+
+/** Inline `//[./x]`, `#[./x]` and `--[./x]` markers, recognised in any file. */
+const MARKER_PATTERNS = [
+  /^#\[(\.\/[^\]]+)\]$/,
+  /^--\[(\.\/[^\]]+)\]$/,
+  /^\/\/\[(\.\/[^\]]+)\]$/,
+];
+
+export function matchImportMarker(line: string): string | null {
+  for (const pattern of MARKER_PATTERNS) {
+    const match = line.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+const hasExtension =
+  (...extensions: string[]) =>
+  (file: string) =>
+    extensions.includes(path.extname(file).toLowerCase());
+
+const isFile = (file: string) => existsSync(file) && statSync(file).isFile();
+
+const firstFile = (candidates: string[]) => candidates.find(isFile);
+
+/** Walks up from `dir` to the first directory containing `marker`. */
+function findUp(dir: string, marker: string): string | undefined {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (existsSync(path.join(current, marker))) return current;
+    if (path.dirname(current) === current) return undefined;
+  }
+}
+
+export const markerProvider: ContextProvider = {
+  name: "markers",
+  supports: () => true,
+  dependencies: (file, content) =>
+    content
+      .split(/\r?\n/)
+      .map(matchImportMarker)
+      .filter((spec): spec is string => spec !== null)
+      .map((spec) => path.resolve(path.dirname(file), spec)),
+};
+
+export function scriptProvider(root: string): ContextProvider {
+  const resolver = createModuleResolver(root);
+  return {
+    name: "typescript",
+    supports: hasExtension(
+      ".ts",
+      ".tsx",
+      ".mts",
+      ".cts",
+      ".js",
+      ".jsx",
+      ".mjs",
+      ".cjs",
+    ),
+    dependencies: (file, content) =>
+      ts
+        .preProcessFile(content, true, true)
+        .importedFiles.map(({ fileName }) => {
+          const resolved = resolver.resolve(fileName, file);
+          if (resolved) return resolved;
+          // Unresolved bare specifiers are external packages.
+          return fileName.startsWith(".")
+            ? path.resolve(path.dirname(file), fileName)
+            : null;
+        })
+        .filter((dep): dep is string => dep !== null),
+  };
+}
+
+/**
+ * `import a.b` and `from .a import b`. Absolute modules are looked up from
+ * the project root and its `src/` directory; anything not found there is
+ * treated as a third-party or standard-library module.
+ */
+export function pythonProvider(root: string): ContextProvider {
+  const moduleFiles = (base: string, dotted: string) => {
+    const dir = path.join(base, ...dotted.split(".").filter(Boolean));
+    return [dir + ".py", dir + ".pyi", path.join(dir, "__init__.py")];
+  };
+
+  return {
+    name: "python",
+    supports: hasExtension(".py", ".pyi"),
+    dependencies: (file, content) => {
+      const imports = [
+        ...[
+          ...content.matchAll(
+            /^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm,
+          ),
+        ]
+          .flatMap((m) => m[1].split(","))
+          .map((part) => ({
+            module: part.trim().split(/\s+/)[0],
+            names: [] as string[],
+          })),
+        ...[
+          ...content.matchAll(
+            /^\s*from\s+([.\w]+)\s+import\s+(\([^)]*\)|[^\n]+)/gm,
+          ),
+        ].map((m) => ({
+          module: m[1],
+          names: m[2]
+            .replace(/[()]/g, "")
+            .split(",")
+            .map((name) => name.trim().split(/\s+/)[0])
+            .filter((name) => /^\w+$/.test(name)),
+        })),
+      ];
+
+      return imports.flatMap(({ module, names }) => {
+        const dots = module.match(/^\.*/)![0].length;
+        const bases =
+          dots > 0
+            ? [path.resolve(path.dirname(file), ...Array(dots - 1).fill(".."))]
+            : [root, path.join(root, "src")];
+        const dotted = module.slice(dots);
+
+        return bases.flatMap((base) => {
+          const found = dotted
+            ? firstFile(moduleFiles(base, dotted))
+            : undefined;
+          // `from pkg import mod` may name submodules rather than attributes.
+          const submodules = names
+            .map((name) => firstFile(moduleFiles(base, `${dotted}.${name}`)))
+            .filter((sub): sub is string => sub !== undefined);
+          return [...(found ? [found] : []), ...submodules];
+        });
+      });
+    },
+  };
+}
+
+/** Packages under the module path declared in the nearest go.mod. */
+export const goProvider: ContextProvider = {
+  name: "go",
+  supports: hasExtension(".go"),
+  dependencies: (file, content) => {
+    const modRoot = findUp(path.dirname(file), "go.mod");
+    if (!modRoot) return [];
+    const modulePath = readFileSync(path.join(modRoot, "go.mod"), "utf8").match(
+      /^module\s+(\S+)/m,
+    )?.[1];
+    if (!modulePath) return [];
+
+    const blocks = [...content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)].map(
+      (m) => m[1],
+    );
+    const singles = [
+      ...content.matchAll(/^import\s+(?:[\w.]+\s+)?"[^"]+"/gm),
+    ].map((m) => m[0]);
+    const specs = [...blocks, ...singles].flatMap((text) =>
+      [...text.matchAll(/"([^"]+)"/g)].map((m) => m[1]),
+    );
+
+    return specs
+      .filter(
+        (spec) => spec === modulePath || spec.startsWith(modulePath + "/"),
+      )
+      .map((spec) => path.join(modRoot, spec.slice(modulePath.length)))
+      .filter((dir) => existsSync(dir) && statSync(dir).isDirectory())
+      .flatMap((dir) =>
+        readdirSync(dir)
+          .filter((name) => name.endsWith(".go") && !name.endsWith("_test.go"))
+          .map((name) => path.join(dir, name)),
+      );
+  },
+};
+
+/**
+ * `mod name;` declarations and `use crate::`/`super::`/`self::` paths,
+ * mapped onto the crate's `src/` tree. Path segments that name items rather
+ * than modules are dropped from the end until a module file matches.
+ */
+export const rustProvider: ContextProvider = {
+  name: "rust",
+  supports: hasExtension(".rs"),
+  dependencies: (file, content) => {
+    const dir = path.dirname(file);
+    const stem = path.basename(file, ".rs");
+    const moduleDir = ["mod", "lib", "main"].includes(stem)
+      ? dir
+      : path.join(dir, stem);
+    const crateRoot = findUp(dir, "Cargo.toml");
+    const crateSrc = crateRoot ? path.join(crateRoot, "src") : undefined;
+
+    const moduleFile = (base: string, segments: string[]) => {
+      for (let count = segments.length; count > 0; count--) {
+        const target = path.join(base, ...segments.slice(0, count));
+        const found = firstFile([target + ".rs", path.join(target, "mod.rs")]);
+        if (found) return found;
+      }
+      return undefined;
+    };
+
+    const mods = [
+      ...content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm),
+    ].map((m) => moduleFile(moduleDir, [m[1]]));
+
+    const uses = [
+      ...content.matchAll(
+        /^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+(crate|super|self)::([^;]+);/gm,
+      ),
+    ].flatMap((m) => {
+      const base =
+        m[1] === "crate"
+          ? crateSrc
+          : m[1] === "super"
+            ? path.dirname(moduleDir)
+            : moduleDir;
+      if (!base) return [];
+      const [prefix, group] = m[2].split(/\{([\s\S]*)\}/);
+      const head = prefix
+        .split("::")
+        .map((s) => s.trim())
+        .filter(Boolean);
+      const tails = group
+        ? group
+            .split(",")
+            .map((item) => item.trim().split("::")[0].trim())
+            .filter((s) => /^\w+$/.test(s) && s !== "self")
+        : [];
+      return tails.length > 0
+        ? tails.map((tail) => moduleFile(base, [...head, tail]))
+        : [moduleFile(base, head)];
+    });
+
+    return [...mods, ...uses].filter((dep): dep is string => dep !== undefined);
+  },
+};
+
+/** Quoted `#include "…"` directives; angle-bracket includes are system headers. */
+export function cProvider(root: string): ContextProvider {
+  return {
+    name: "c",
+    supports: hasExtension(
+      ".c",
+      ".h",
+      ".cc",
+      ".cpp",
+      ".cxx",
+      ".hpp",
+      ".hh",
+      ".hxx",
+    ),
+    dependencies: (file, content) =>
+      [...content.matchAll(/^\s*#\s*include\s+"([^"]+)"/gm)]
+        .map((m) =>
+          firstFile(
+            [
+              path.dirname(file),
+              root,
+              path.join(root, "include"),
+              path.join(root, "src"),
+            ].map((base) => path.resolve(base, m[1])),
+          ),
+        )
+        .filter((dep): dep is string => dep !== undefined),
+  };
+}
+
+export function createContextProviders(root: string): ContextProvider[] {
+  return [
+    markerProvider,
+    scriptProvider(root),
+    pythonProvider(root),
+    goProvider,
+    rustProvider,
+    cProvider(root),
+  ];
+}
+
+/** Union of the dependencies reported by every provider that supports `file`. */
+export function findDependencies(
+  providers: ContextProvider[],
+  file: string,
+  content: string,
+): string[] {
+  return [
+    ...new Set(
+      providers
+        .filter((provider) => provider.supports(file))
+        .flatMap((provider) => provider.dependencies(file, content)),
+    ),
+  ];
+}
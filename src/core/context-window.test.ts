@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import type { ChatMessage } from "../api/chat.ts";
+import {
+  dropOldestTurns,
+  measureMessages,
+  splitTurns,
+  truncateOutputs,
+} from "./context-window.ts";
+
+describe("context window", () => {
+  const history: ChatMessage[] = [
+    { role: "user", content: "first question" },
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [{ id: "c1", name: "run_shell", arguments: '{"command":"ls"}' }],
+    },
+    { role: "tool", tool_call_id: "c1", content: "file\n".repeat(2000) },
+    { role: "assistant", content: "There are many files." },
+    { role: "user", content: "second question" },
+    { role: "assistant", content: "second answer" },
+  ];
+
+  test("groups tool calls and results with the turn that caused them", () => {
+    expect(splitTurns(history).map((turn) => turn.length)).toEqual([4, 2]);
+  });
+
+  test("drops whole turns, oldest first, until the history fits", () => {
+    const latest = history.slice(4);
+    const trimmed = dropOldestTurns(history, measureMessages(latest));
+
+    expect(trimmed).toEqual(latest);
+  });
+
+  test("truncates large outputs before dropping turns", () => {
+    const trimmed = truncateOutputs(history, 1500);
+
+    expect(trimmed).toHaveLength(history.length);
+    expect(trimmed[2].content).toContain("lines truncated");
+    expect(measureMessages(trimmed)).toBeLessThanOrEqual(1500);
+    expect(trimmed.slice(4)).toEqual(history.slice(4));
+  });
+});
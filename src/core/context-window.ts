@@ -0,0 +1,124 @@
+import type { ChatMessage } from "../api/chat.ts";
+import { countTokens, type TokenizerSource } from "../utils/tokenizer.ts";
+
+export type ContextStrategy = "drop-oldest" | "truncate-outputs" | "summarize";
+
+export interface ContextWindowOptions {
+  strategy: ContextStrategy;
+  /** Fraction of the model's input limit the request may fill. */
+  threshold?: number;
+}
+
+export const DEFAULT_CONTEXT_THRESHOLD = 0.9;
+
+// Roughly what the API adds per message for role and framing tokens.
+const MESSAGE_OVERHEAD = 4;
+const MIN_OUTPUT_TOKENS = 200;
+
+export function measureMessages(
+  messages: ChatMessage[],
+  model?: TokenizerSource,
+): number {
+  return messages.reduce(
+    (total, message) =>
+      total +
+      MESSAGE_OVERHEAD +
+      countTokens(message.content, model) +
+      (message.tool_calls ?? []).reduce(
+        (sum, call) => sum + countTokens(call.name + call.arguments, model),
+        0,
+      ),
+    0,
+  );
+}
+
+/**
+ * Groups history into turns that each start at a user message, so tool calls
+ * and their results are always kept or dropped together.
+ */
+export function splitTurns(history: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const message of history) {
+    const current = turns.at(-1);
+    if (message.role === "user" || !current) {
+      turns.push([message]);
+    } else {
+      current.push(message);
+    }
+  }
+  return turns;
+}
+
+export function dropOldestTurns(
+  history: ChatMessage[],
+  budget: number,
+  model?: TokenizerSource,
+): ChatMessage[] {
+  const turns = splitTurns(history);
+  let total = measureMessages(history, model);
+  while (turns.length > 0 && total > budget) {
+    total -= measureMessages(turns.shift()!, model);
+  }
+  return turns.flat();
+}
+
+/**
+ * Shortens the largest messages outside the latest turn (command output,
+ * file contents) to their head and tail, then drops turns if that is still
+ * not enough.
+ */
+export function truncateOutputs(
+  history: ChatMessage[],
+  budget: number,
+  model?: TokenizerSource,
+): ChatMessage[] {
+  const turns = splitTurns(history);
+  const latest = turns.pop() ?? [];
+  let older = turns.flat();
+  let cap = 2000;
+
+  while (
+    cap >= MIN_OUTPUT_TOKENS &&
+    measureMessages(older, model) + measureMessages(latest, model) > budget
+  ) {
+    older = older.map((message) => truncateMessage(message, cap, model));
+    cap = Math.floor(cap / 2);
+  }
+
+  return dropOldestTurns([...older, ...latest], budget, model);
+}
+
+function truncateMessage(
+  message: ChatMessage,
+  maxTokens: number,
+  model?: TokenizerSource,
+): ChatMessage {
+  if (
+    message.role === "system" ||
+    countTokens(message.content, model) <= maxTokens
+  ) {
+    return message;
+  }
+  const lines = message.content.split("\n");
+  // Head and tail each get half the cap at ~4 chars per token.
+  const keepChars = maxTokens * 2;
+  const head = message.content.slice(0, keepChars);
+  const tail = message.content.slice(-keepChars);
+  const omitted =
+    lines.length - head.split("\n").length - tail.split("\n").length;
+  return {
+    ...message,
+    content: `${head}\n[... ${Math.max(omitted, 0)} lines truncated ...]\n${tail}`,
+  };
+}
+
+export function formatTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map((message) => {
+      const calls = (message.tool_calls ?? [])
+        .map((call) => `\n(called ${call.name} ${call.arguments})`)
+        .join("");
+      return `${message.role}: ${message.content}${calls}`;
+    })
+    .join("\n\n");
+}
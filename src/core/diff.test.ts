@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyHunks,
+  diffHunks,
+  formatUnifiedDiff,
+  replaceHunkText,
+} from "./diff.ts";
+
+describe("diff", () => {
+  const before = Array.from({ length: 12 }, (_, i) => `${i + 1}\n`).join("");
+  const after = before.replace("2\n", "two\n").replace("11\n", "eleven\n");
+
+  test("formats a unified diff with context", () => {
+    const hunks = diffHunks("a\nb\nc\n", "a\nx\nc\n");
+
+    expect(formatUnifiedDiff("a/f.ts", "b/f.ts", hunks)).toBe(
+      "--- a/f.ts\n+++ b/f.ts\n@@ -1,3 +1,3 @@\n a\n-b\n+x\n c\n",
+    );
+    expect(formatUnifiedDiff("a/f.ts", "b/f.ts", diffHunks("x\n", "x\n"))).toBe("");
+  });
+
+  test("splits distant changes into separate hunks", () => {
+    const hunks = diffHunks(before, after);
+
+    expect(hunks.map((h) => [h.oldStart, h.oldLines])).toEqual([
+      [0, 5],
+      [7, 5],
+    ]);
+    expect(applyHunks(before, hunks)).toBe(after);
+    expect(applyHunks(before, [hunks[1]])).toBe(before.replace("11\n", "eleven\n"));
+  });
+
+  test("marks a missing final newline", () => {
+    const diff = formatUnifiedDiff("a/f", "b/f", diffHunks("", "new"));
+
+    expect(diff).toContain("@@ -0,0 +1,1 @@\n+new\n\\ No newline at end of file");
+  });
+
+  test("applies an edited hunk", () => {
+    const [hunk] = diffHunks("a\nb\nc\n", "a\nx\nc\n");
+
+    expect(applyHunks("a\nb\nc\n", [replaceHunkText(hunk, "a\ny\nz\nc\n")])).toBe(
+      "a\ny\nz\nc\n",
+    );
+  });
+});
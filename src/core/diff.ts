@@ -0,0 +1,167 @@
+export interface DiffLine {
+  type: " " | "-" | "+";
+  /** Line text including its trailing newline, if it has one. */
+  text: string;
+}
+
+export interface DiffHunk {
+  /** 0-based index of the hunk's first line in the old text. */
+  oldStart: number;
+  oldLines: number;
+  /** 0-based index of the hunk's first line in the new text. */
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+const DEFAULT_CONTEXT = 3;
+
+/** Splits text into lines that keep their `\n`, so joining is lossless. */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** Myers' O(ND) shortest edit script between two line arrays. */
+function diffOps(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // Per round d, the slice of v covering diagonals -d-1..d+1.
+  const trace: Int32Array[] = [];
+
+  const pickDown = (vAt: (k: number) => number, k: number, d: number) =>
+    k === -d || (k !== d && vAt(k - 1) < vAt(k + 1));
+
+  search: for (let d = 0; d <= n + m; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = pickDown((i) => v[offset + i], k, d)
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const ops: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const round = trace[d];
+    const vAt = (k: number) => round[k + d + 1];
+    const k = x - y;
+    const prevK = pickDown(vAt, k, d) ? k + 1 : k - 1;
+    const prevX = vAt(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: " ", text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: "+", text: b[--y] });
+      else ops.push({ type: "-", text: a[--x] });
+    }
+  }
+  return ops.reverse();
+}
+
+/** Groups the line diff of two texts into hunks with `context` lines around each change. */
+export function diffHunks(
+  before: string,
+  after: string,
+  context = DEFAULT_CONTEXT,
+): DiffHunk[] {
+  const ops = diffOps(splitLines(before), splitLines(after));
+
+  const positions: { old: number; new: number }[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+  for (const op of ops) {
+    positions.push({ old: oldPos, new: newPos });
+    if (op.type !== "+") oldPos++;
+    if (op.type !== "-") newPos++;
+  }
+
+  const groups: [number, number][] = [];
+  ops.forEach((op, i) => {
+    if (op.type === " ") return;
+    const last = groups.at(-1);
+    if (last && i - last[1] - 1 <= 2 * context) last[1] = i;
+    else groups.push([i, i]);
+  });
+
+  return groups.map(([first, last]) => {
+    const start = Math.max(0, first - context);
+    const lines = ops.slice(start, Math.min(ops.length, last + context + 1));
+    return {
+      oldStart: positions[start].old,
+      oldLines: lines.filter((l) => l.type !== "+").length,
+      newStart: positions[start].new,
+      newLines: lines.filter((l) => l.type !== "-").length,
+      lines,
+    };
+  });
+}
+
+/** Rebuilds the new text from `before` using only the given hunks. */
+export function applyHunks(before: string, hunks: DiffHunk[]): string {
+  const lines = splitLines(before);
+  let result = "";
+  let cursor = 0;
+  for (const hunk of [...hunks].sort((x, y) => x.oldStart - y.oldStart)) {
+    result += lines.slice(cursor, hunk.oldStart).join("");
+    result += hunk.lines
+      .filter((l) => l.type !== "-")
+      .map((l) => l.text)
+      .join("");
+    cursor = hunk.oldStart + hunk.oldLines;
+  }
+  return result + lines.slice(cursor).join("");
+}
+
+/** Replaces what a hunk inserts with `text`, keeping the lines it removes. */
+export function replaceHunkText(hunk: DiffHunk, text: string): DiffHunk {
+  const removed = hunk.lines
+    .filter((l) => l.type !== "+")
+    .map((l): DiffLine => ({ type: "-", text: l.text }));
+  const added = splitLines(text).map((t): DiffLine => ({ type: "+", text: t }));
+  return { ...hunk, newLines: added.length, lines: [...removed, ...added] };
+}
+
+/** The text a hunk produces, as it would appear in the new file. */
+export function hunkText(hunk: DiffHunk): string {
+  return hunk.lines
+    .filter((l) => l.type !== "-")
+    .map((l) => l.text)
+    .join("");
+}
+
+export function formatHunk(hunk: DiffHunk): string {
+  // Unified diffs number from 1, and name the preceding line for empty ranges.
+  const range = (start: number, count: number) =>
+    `${count === 0 ? start : start + 1},${count}`;
+  const header = `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`;
+  const body = hunk.lines.map((l) =>
+    l.text.endsWith("\n")
+      ? l.type + l.text.slice(0, -1)
+      : `${l.type}${l.text}\n\\ No newline at end of file`,
+  );
+  return [header, ...body].join("\n");
+}
+
+export function formatUnifiedDiff(
+  oldName: string,
+  newName: string,
+  hunks: DiffHunk[],
+): string {
+  if (hunks.length === 0) return "";
+  return [`--- ${oldName}`, `+++ ${newName}`, ...hunks.map(formatHunk)].join(
+    "\n",
+  ) + "\n";
+}
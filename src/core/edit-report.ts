@@ -0,0 +1,42 @@
+/** Zero-based line/character position, as used by LSP and editor APIs. */
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface TextRange {
+  start: Position;
+  end: Position;
+}
+
+export interface ProposedChange {
+  file: string;
+  kind: "edit" | "create" | "delete";
+  /** Range in the current file contents that `oldText` occupies. */
+  range: TextRange;
+  oldText: string;
+  newText: string;
+}
+
+export interface EditReport {
+  tool: string;
+  model: string;
+  usage: { promptTokens: number; completionTokens: number };
+  changes: ProposedChange[];
+}
+
+export function offsetToPosition(text: string, offset: number): Position {
+  const before = text.slice(0, offset).split("\n");
+  return { line: before.length - 1, character: before.at(-1)!.length };
+}
+
+export function rangeOf(text: string, start: number, end: number): TextRange {
+  return {
+    start: offsetToPosition(text, start),
+    end: offsetToPosition(text, end),
+  };
+}
+
+export function writeReport(report: EditReport): void {
+  process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { exportedSymbols } from "./exported-symbols.ts";
+
+describe("exportedSymbols", () => {
+  test("collects TypeScript exports", () => {
+    const source = [
+      "export const a = 1, { b, c: [d] } = obj;",
+      "export function f() {}",
+      "export default class Widget {}",
+      "export interface Shape {}",
+      "export { x as y, z };",
+      "export * from './other';",
+      "const hidden = 2;",
+    ].join("\n");
+
+    expect(exportedSymbols("mod.ts", source)).toEqual([
+      "a",
+      "b",
+      "d",
+      "f",
+      "default",
+      "Shape",
+      "y",
+      "z",
+    ]);
+  });
+
+  test("collects public top-level names in other languages", () => {
+    expect(
+      exportedSymbols(
+        "m.py",
+        "import os\nVERSION = 1\n_private = 2\ndef run():\n    inner = 3\nclass Job:\n    pass\n",
+      ),
+    ).toEqual(["run", "Job", "VERSION"]);
+    expect(
+      exportedSymbols(
+        "m.go",
+        "package m\nfunc Run() {}\nfunc helper() {}\nfunc (j *Job) Start() {}\ntype Job struct{}\n",
+      ),
+    ).toEqual(["Run", "Start", "Job"]);
+    expect(
+      exportedSymbols(
+        "m.rs",
+        "pub fn run() {}\nfn private() {}\npub struct Job;\n",
+      ),
+    ).toEqual(["run", "Job"]);
+    expect(
+      exportedSymbols(
+        "m.h",
+        "#define MAX 3\nstruct point {\n};\nint area(int w, int h);\n",
+      ),
+    ).toEqual(["MAX", "point", "area"]);
+  });
+});
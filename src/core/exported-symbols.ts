@@ -0,0 +1,103 @@
+import path from "path";
+import ts from "typescript";
+
+const SCRIPT_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+const hasExportModifier = (node: ts.Node) =>
+  ts.canHaveModifiers(node) &&
+  (ts.getModifiers(node) ?? []).some(
+    (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+  );
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) =>
+    ts.isOmittedExpression(element) ? [] : bindingNames(element.name),
+  );
+}
+
+function scriptExports(file: string, content: string): string[] {
+  const source = ts.createSourceFile(file, content, ts.ScriptTarget.Latest);
+  return source.statements.flatMap((statement): string[] => {
+    if (ts.isExportAssignment(statement)) return ["default"];
+    if (ts.isExportDeclaration(statement)) {
+      const clause = statement.exportClause;
+      if (!clause) return [];
+      return ts.isNamedExports(clause)
+        ? clause.elements.map((element) => element.name.text)
+        : [clause.name.text];
+    }
+    if (!hasExportModifier(statement)) return [];
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.flatMap((declaration) =>
+        bindingNames(declaration.name),
+      );
+    }
+    const isDefault = (
+      ts.getModifiers(statement as ts.HasModifiers) ?? []
+    ).some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+    const name = (statement as { name?: ts.Node }).name;
+    if (name && ts.isIdentifier(name))
+      return [isDefault ? "default" : name.text];
+    return isDefault ? ["default"] : [];
+  });
+}
+
+/** Public top-level declarations by language; group 1 is the name. */
+const PATTERNS: Record<string, RegExp[]> = {
+  python: [
+    /^(?:async\s+def|def|class)\s+([A-Za-z]\w*)/gm,
+    /^([A-Za-z]\w*)\s*(?::[^=\n]+)?=(?!=)/gm,
+  ],
+  go: [/^(?:func(?:\s+\([^)]*\))?|type|var|const)\s+([A-Z]\w*)/gm],
+  rust: [
+    /^pub(?:\([^)]*\))?\s+(?:(?:async|unsafe|const|extern\s+"\w+")\s+)*(?:fn|struct|enum|trait|type|const|static|mod|union)\s+(\w+)/gm,
+  ],
+  header: [
+    /^#\s*define\s+(\w+)/gm,
+    /^(?:typedef\s+)?(?:struct|enum|class|union)\s+(\w+)\s*[{;]/gm,
+    /^typedef\s[^;]*?\b(\w+)\s*;/gm,
+    /^[A-Za-z_][\w\s*&:<>,]*?\b(\w+)\s*\([^;{]*\)\s*;/gm,
+  ],
+};
+
+const LANGUAGES: Record<string, keyof typeof PATTERNS> = {
+  ".py": "python",
+  ".pyi": "python",
+  ".go": "go",
+  ".rs": "rust",
+  ".h": "header",
+  ".hh": "header",
+  ".hpp": "header",
+  ".hxx": "header",
+};
+
+/**
+ * Names a source file makes available to other files: exported declarations
+ * for TypeScript/JavaScript, public top-level names for Python, Go and Rust,
+ * and declarations in C/C++ headers. Other files export nothing.
+ */
+export function exportedSymbols(file: string, content: string): string[] {
+  const ext = path.extname(file).toLowerCase();
+  if (SCRIPT_EXTENSIONS.includes(ext)) {
+    return [...new Set(scriptExports(file, content))];
+  }
+  const language = LANGUAGES[ext];
+  if (!language) return [];
+  return [
+    ...new Set(
+      PATTERNS[language].flatMap((pattern) =>
+        [...content.matchAll(pattern)].map((match) => match[1]),
+      ),
+    ),
+  ];
+}
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import { existsSync, readdirSync } from "fs";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { FsError } from "../errors/index.ts";
+import { FileSystemService } from "../services/FileSystemService.ts";
+import { applyTransaction, projectPath } from "./file-transaction.ts";
+
+describe("file-transaction", () => {
+  let dir = "";
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "transaction-"));
+  });
+
+  afterAll(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  const fs = Effect.runSync(
+    FileSystemService.pipe(Effect.provide(FileSystemService.layer)),
+  );
+
+  test("writes, creates and really deletes files", async () => {
+    const kept = path.join(dir, "kept.ts");
+    const gone = path.join(dir, "gone.ts");
+    const created = path.join(dir, "nested", "new.ts");
+    await writeFile(kept, "old");
+    await writeFile(gone, "bye");
+
+    const snapshots = await Effect.runPromise(
+      applyTransaction(fs, [
+        { file: kept, contents: "new" },
+        { file: gone, contents: null },
+        { file: created, contents: "hello" },
+      ]),
+    );
+
+    expect(await readFile(kept, "utf8")).toBe("new");
+    expect(existsSync(gone)).toBe(false);
+    expect(await readFile(created, "utf8")).toBe("hello");
+    expect(snapshots.map((s) => s.contents)).toEqual(["old", "bye", null]);
+    expect(readdirSync(dir).filter((f) => f.endsWith(".tmp"))).toEqual([]);
+  });
+
+  test("rolls back every touched file when a step fails", async () => {
+    const a = path.join(dir, "a.ts");
+    const b = path.join(dir, "b.ts");
+    const c = path.join(dir, "c.ts");
+    await writeFile(a, "a0");
+    await writeFile(b, "b0");
+
+    const failing = FileSystemService.of({
+      ...fs,
+      writeFileAtomic: (file, contents) =>
+        file === c && contents === "boom"
+          ? Effect.fail(new FsError("disk full"))
+          : fs.writeFileAtomic(file, contents),
+    });
+
+    const error = await Effect.runPromise(
+      Effect.flip(
+        applyTransaction(failing, [
+          { file: a, contents: "a1" },
+          { file: b, contents: null },
+          { file: c, contents: "boom" },
+        ]),
+      ),
+    );
+
+    expect(error.message).toBe("disk full");
+    expect(await readFile(a, "utf8")).toBe("a0");
+    expect(await readFile(b, "utf8")).toBe("b0");
+    expect(existsSync(c)).toBe(false);
+  });
+
+  test("anchors project paths to the root when run from a subdirectory", async () => {
+    const sub = path.join(dir, "src");
+    await mkdir(sub, { recursive: true });
+    const cwd = process.cwd();
+    process.chdir(sub);
+    try {
+      const file = projectPath(dir, "src/foo.ts")!;
+      expect(file).toBe(path.join("src", "foo.ts"));
+      expect(projectPath(dir, path.join(dir, "lib", "x.ts"))).toBe(
+        path.join("lib", "x.ts"),
+      );
+      expect(projectPath(dir, "../outside.ts")).toBeUndefined();
+      expect(projectPath(dir, "/etc/passwd")).toBeUndefined();
+      expect(projectPath(dir, "..foo.ts")).toBe("..foo.ts");
+
+      await Effect.runPromise(
+        applyTransaction(fs, [
+          { file: path.resolve(dir, file), contents: "anchored" },
+        ]),
+      );
+      expect(await readFile(path.join(sub, "foo.ts"), "utf8")).toBe("anchored");
+      expect(existsSync(path.join(sub, "src"))).toBe(false);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import * as Effect from "effect/Effect";
+import path from "path";
+import { FsError } from "../errors/index.ts";
+import type { FileSystem } from "../services/FileSystemService.ts";
+
+/** Desired contents of a file; null deletes it. */
+export interface FileWrite {
+  file: string;
+  contents: string | null;
+}
+
+/** Contents of a file before a transaction touched it; null if it did not exist. */
+export interface FileSnapshot {
+  file: string;
+  contents: string | null;
+}
+
+export function snapshotFile(fs: FileSystem, file: string) {
+  return Effect.gen(function* () {
+    const contents = (yield* fs.exists(file)) ? yield* fs.readFile(file) : null;
+    return { file, contents } satisfies FileSnapshot;
+  });
+}
+
+function writeOne(fs: FileSystem, { file, contents }: FileWrite) {
+  if (contents === null) return fs.remove(file);
+  return fs
+    .ensureDir(path.dirname(file))
+    .pipe(Effect.zipRight(fs.writeFileAtomic(file, contents)));
+}
+
+/**
+ * Puts files back the way the snapshots recorded them, newest first. Every
+ * snapshot is attempted; failures are collected into a single FsError.
+ */
+export function restoreSnapshots(fs: FileSystem, snapshots: FileSnapshot[]) {
+  return Effect.gen(function* () {
+    const failures: string[] = [];
+    for (const snapshot of [...snapshots].reverse()) {
+      yield* writeOne(fs, snapshot).pipe(
+        Effect.catchAll((err) =>
+          Effect.sync(() => failures.push(`${snapshot.file}: ${err.message}`)),
+        ),
+      );
+    }
+    if (failures.length > 0) {
+      return yield* Effect.fail(
+        new FsError(`Could not restore ${failures.join("; ")}`),
+      );
+    }
+  });
+}
+
+/**
+ * Applies writes and deletes as one unit. Each file is snapshotted before it
+ * is touched; if any step fails, the files touched so far are restored and
+ * the original error is re-raised. Returns the snapshots so callers can undo
+ * the transaction later.
+ */
+export function applyTransaction(fs: FileSystem, writes: FileWrite[]) {
+  return Effect.suspend(() => {
+    const snapshots: FileSnapshot[] = [];
+
+    return Effect.forEach(
+      writes,
+      (write) =>
+        Effect.gen(function* () {
+          snapshots.push(yield* snapshotFile(fs, write.file));
+          yield* writeOne(fs, write);
+        }),
+      { discard: true },
+    ).pipe(
+      Effect.as(snapshots),
+      Effect.catchAll((err) =>
+        restoreSnapshots(fs, snapshots).pipe(
+          Effect.mapError(
+            (rollbackErr) =>
+              new FsError(
+                `${err.message} (rollback failed: ${rollbackErr.message})`,
+              ),
+          ),
+          Effect.zipRight(Effect.fail(err)),
+        ),
+      ),
+    );
+  });
+}
+
+/**
+ * `file` relative to `root`, whether given relative to the root or absolute;
+ * undefined when it points outside the root. The working directory plays no
+ * part, so paths mean the same from any subdirectory.
+ */
+export function projectPath(root: string, file: string): string | undefined {
+  const relative = path.relative(root, path.resolve(root, file));
+  const outside =
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative);
+  return relative && !outside ? relative : undefined;
+}
@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, realpath, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { isIgnored, parseIgnoreFile, walkFiles } from "./file-walker.ts";
+
+describe("file-walker", () => {
+  test("applies gitignore anchoring, directory and negation rules", () => {
+    const rules = parseIgnoreFile(
+      "# build output\n*.log\n!keep.log\n/dist\nbuild/\ndocs/**/*.tmp\n",
+      "",
+    );
+
+    expect(isIgnored(rules, "a/b/debug.log", false)).toBe(true);
+    expect(isIgnored(rules, "a/keep.log", false)).toBe(false);
+    expect(isIgnored(rules, "dist", true)).toBe(true);
+    expect(isIgnored(rules, "src/dist", true)).toBe(false);
+    expect(isIgnored(rules, "src/build", true)).toBe(true);
+    expect(isIgnored(rules, "build", false)).toBe(false);
+    expect(isIgnored(rules, "docs/x.tmp", false)).toBe(true);
+    expect(isIgnored(rules, "docs/a/b/x.tmp", false)).toBe(true);
+    expect(isIgnored(rules, "src/x.tmp", false)).toBe(false);
+  });
+
+  describe("walkFiles", () => {
+    let root = "";
+
+    beforeAll(async () => {
+      root = await realpath(await mkdtemp(path.join(os.tmpdir(), "walker-")));
+      const files: Record<string, string> = {
+        ".gitignore": "node_modules/\n*.gen.ts\n",
+        "src/app.ts": "",
+        "src/app.gen.ts": "",
+        "src/vendor/.gitignore": "*\n!.gitignore\n!kept.ts\n",
+        "src/vendor/kept.ts": "",
+        "src/vendor/dropped.ts": "",
+        "node_modules/pkg/index.js": "",
+        ".git/HEAD": "",
+        ".copilot-scripts/index/imports.json": "",
+      };
+      for (const [rel, contents] of Object.entries(files)) {
+        await mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+        await writeFile(path.join(root, rel), contents);
+      }
+    });
+
+    afterAll(async () => {
+      if (root) await rm(root, { recursive: true, force: true });
+    });
+
+    test("lists files that are not ignored at any level", () => {
+      expect(walkFiles(root).map((file) => path.relative(root, file))).toEqual([
+        ".gitignore",
+        "src/app.ts",
+        "src/vendor/.gitignore",
+        "src/vendor/kept.ts",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+
+/** Never walked, whatever the ignore files say. */
+const ALWAYS_SKIPPED = new Set([".git", ".copilot-scripts"]);
+
+interface IgnoreRule {
+  /** Directory the rule's ignore file lives in, relative to the walk root. */
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/** Translates one glob of a .gitignore line into a regular expression body. */
+function globToRegExp(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const slashAfter = glob[i + 2] === "/";
+      out += slashAfter ? "(?:.*/)?" : ".*";
+      i += slashAfter ? 2 : 1;
+    } else if (char === "*") {
+      out += "[^/]*";
+    } else if (char === "?") {
+      out += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        out += "\\[";
+        continue;
+      }
+      const body = glob.slice(i + 1, close).replace(/^!/, "^");
+      out += `[${body.replace(/\\/g, "\\\\")}]`;
+      i = close;
+    } else if (char === "\\" && i + 1 < glob.length) {
+      out += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      out += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return out;
+}
+
+/** Parses .gitignore text following git's rules for anchoring and negation. */
+export function parseIgnoreFile(text: string, base: string): IgnoreRule[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(?<!\\)\s+$/, ""))
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const negate = line.startsWith("!");
+      const body = line.replace(/^!/, "").replace(/^\\(?=[!#])/, "");
+      const dirOnly = body.endsWith("/");
+      const trimmed = body.replace(/\/+$/, "");
+      // A slash anywhere but the end anchors the pattern to its directory.
+      const anchored = trimmed.includes("/");
+      const glob = trimmed.replace(/^\//, "");
+      const prefix = anchored ? "" : "(?:.*/)?";
+      return {
+        base,
+        pattern: new RegExp(`^${prefix}${globToRegExp(glob)}$`),
+        negate,
+        dirOnly,
+      };
+    });
+}
+
+/** Whether `relPath` is ignored; the last matching rule wins. */
+export function isIgnored(
+  rules: IgnoreRule[],
+  relPath: string,
+  isDirectory: boolean,
+): boolean {
+  return rules.reduce((ignored, rule) => {
+    if (rule.dirOnly && !isDirectory) return ignored;
+    if (rule.base && !relPath.startsWith(rule.base + "/")) return ignored;
+    const local = rule.base ? relPath.slice(rule.base.length + 1) : relPath;
+    return rule.pattern.test(local) ? !rule.negate : ignored;
+  }, false);
+}
+
+function readRules(file: string, base: string): IgnoreRule[] {
+  if (!existsSync(file)) return [];
+  try {
+    return parseIgnoreFile(readFileSync(file, "utf8"), base);
+  } catch {
+    return [];
+  }
+}
+
+/** Entries of `dir` by name; none when it cannot be read. */
+function readEntries(dir: string) {
+  try {
+    return readdirSync(dir, { withFileTypes: true }).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists the files under `root` that git would not ignore, honouring
+ * `.gitignore` files at every level and `.git/info/exclude`. Ignored
+ * directories are not entered, so their files cannot be re-included, as in
+ * git. Directories that cannot be read are skipped. Returns sorted absolute
+ * paths.
+ */
+export function walkFiles(root: string): string[] {
+  const files: string[] = [];
+
+  const walk = (relDir: string, inherited: IgnoreRule[]) => {
+    const dir = path.join(root, relDir);
+    const rules = [
+      ...inherited,
+      ...readRules(path.join(dir, ".gitignore"), relDir),
+    ];
+    for (const entry of readEntries(dir)) {
+      if (ALWAYS_SKIPPED.has(entry.name)) continue;
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+      const isDirectory = entry.isDirectory();
+      if (!isDirectory && !entry.isFile()) continue;
+      if (isIgnored(rules, relPath, isDirectory)) continue;
+      if (isDirectory) walk(relPath, rules);
+      else files.push(path.join(root, relPath));
+    }
+  };
+
+  walk("", readRules(path.join(root, ".git", "info", "exclude"), ""));
+  return files;
+}
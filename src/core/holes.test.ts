@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import {
+  detectIndentStyle,
+  fillHoles,
+  findHoles,
+  markHoles,
+  nearestHole,
+  parseCompletions,
+  reindentFill,
+  reindentFills,
+} from "./holes.ts";
+
+describe("holes", () => {
+  const code = ["function a() {", ".?.", "}", "", "const b = .?.;", "", ".?."].join(
+    "\n",
+  );
+
+  test("finds every hole with its line number", () => {
+    expect(findHoles(code)).toEqual([
+      { id: 1, line: 2, offset: 15, indent: "" },
+      { id: 2, line: 5, offset: 32, indent: "" },
+      { id: 3, line: 7, offset: 38, indent: "" },
+    ]);
+  });
+
+  test("marks only the requested holes", () => {
+    expect(markHoles(code, [2, 3])).toBe(
+      ["function a() {", ".?.", "}", "", "const b = {:FILL_HERE_2:};", "", "{:FILL_HERE_3:}"].join(
+        "\n",
+      ),
+    );
+  });
+
+  test("fills holes by id and leaves the rest", () => {
+    const filled = fillHoles(code, new Map([[1, "return $1;"], [3, "a();"]]));
+
+    expect(filled).toBe(
+      ["function a() {", "return $1;", "}", "", "const b = .?.;", "", "a();"].join("\n"),
+    );
+  });
+
+  test("picks the hole closest to a line", () => {
+    expect(nearestHole(findHoles(code), 6)?.id).toBe(2);
+  });
+
+  test("parses numbered and untagged completions", () => {
+    const response = '<COMPLETION id="2">\n42\n</COMPLETION><COMPLETION>x</COMPLETION>';
+
+    expect(parseCompletions(response, [1, 2])).toEqual(
+      new Map([
+        [2, "42"],
+        [1, "x"],
+      ]),
+    );
+    expect(parseCompletions("plain", [3])).toEqual(new Map([[3, "plain"]]));
+  });
+
+  test("re-indents multi-line fills to the hole's column", () => {
+    const nested = "class A {\n  run() {\n    .?.\n  }\n}";
+    const relative = "if (ok) {\n  done();\n}";
+    const absolute = "if (ok) {\n      done();\n    }";
+
+    const expected = "class A {\n  run() {\n    if (ok) {\n      done();\n    }\n  }\n}";
+    expect(fillHoles(nested, reindentFills(nested, new Map([[1, relative]])))).toBe(
+      expected,
+    );
+    expect(fillHoles(nested, reindentFills(nested, new Map([[1, absolute]])))).toBe(
+      expected,
+    );
+  });
+
+  test("converts fills to the file's tab indentation", () => {
+    const tabbed = "func a() {\n\tif x {\n\t\t.?.\n\t}\n}";
+    const [hole] = findHoles(tabbed);
+
+    expect(detectIndentStyle(tabbed)).toEqual({ char: "\t", width: 4 });
+    expect(reindentFill("for {\n    y()\n}", hole, detectIndentStyle(tabbed))).toBe(
+      "for {\n\t\t\ty()\n\t\t}",
+    );
+  });
+});
@@ -0,0 +1,201 @@
+export const HOLE = ".?.";
+
+export interface Hole {
+  /** 1-based position of the hole in the file. */
+  id: number;
+  /** 1-based line the hole sits on. */
+  line: number;
+  /** Character offset of the `.?.` in the file. */
+  offset: number;
+  /** Leading whitespace of that line. */
+  indent: string;
+}
+
+export interface IndentStyle {
+  char: " " | "\t";
+  /** Columns per indentation level (a tab counts as this many columns). */
+  width: number;
+}
+
+export function findHoles(code: string): Hole[] {
+  const lines = code.split("\n");
+  const parts = code.split(HOLE);
+  let line = 1;
+  let offset = 0;
+  return parts.slice(0, -1).map((part, index) => {
+    line += part.split("\n").length - 1;
+    offset += part.length;
+    const indent = lines[line - 1].match(/^[ \t]*/)![0];
+    const hole = { id: index + 1, line, offset, indent };
+    offset += HOLE.length;
+    return hole;
+  });
+}
+
+export function nearestHole(holes: Hole[], line: number): Hole | undefined {
+  return holes.reduce<Hole | undefined>(
+    (best, hole) =>
+      !best || Math.abs(hole.line - line) < Math.abs(best.line - line)
+        ? hole
+        : best,
+    undefined,
+  );
+}
+
+/**
+ * Swaps every hole for `replace(id)`; holes for which it returns undefined
+ * stay as `.?.`.
+ */
+function mapHoles(
+  code: string,
+  replace: (id: number) => string | undefined,
+): string {
+  const parts = code.split(HOLE);
+  return parts.reduce(
+    (acc, part, index) => acc + (replace(index) ?? HOLE) + part,
+  );
+}
+
+export const fillMarker = (id: number) => `{:FILL_HERE_${id}:}`;
+
+/** Replaces the selected holes with numbered `{:FILL_HERE_n:}` markers. */
+export function markHoles(code: string, ids: number[]): string {
+  return mapHoles(code, (id) => (ids.includes(id) ? fillMarker(id) : undefined));
+}
+
+export function fillHoles(code: string, fills: Map<number, string>): string {
+  return mapHoles(code, (id) => fills.get(id));
+}
+
+/**
+ * Reads `<COMPLETION id="n">` answers from a response. Untagged completions
+ * are assigned to the requested ids in order, and a bare response counts as
+ * the answer when a single hole was requested.
+ */
+export function parseCompletions(
+  response: string,
+  ids: number[],
+): Map<number, string> {
+  const fills = new Map<number, string>();
+  const untagged: string[] = [];
+
+  for (const match of response.matchAll(
+    /<COMPLETION(?:\s+id="?(\d+)"?)?\s*>([\s\S]*?)<\/COMPLETION>/g,
+  )) {
+    const id = match[1] ? Number(match[1]) : undefined;
+    if (id !== undefined && ids.includes(id)) {
+      fills.set(id, match[2]);
+    } else {
+      untagged.push(match[2]);
+    }
+  }
+
+  for (const id of ids) {
+    if (fills.has(id) || untagged.length === 0) continue;
+    fills.set(id, untagged.shift()!);
+  }
+
+  if (fills.size === 0 && ids.length === 1) {
+    fills.set(ids[0], response);
+  }
+
+  return new Map(
+    [...fills].map(([id, fill]) => [id, fill.replace(/^\n+|\n+$/g, "")]),
+  );
+}
+
+export function detectIndentStyle(code: string): IndentStyle {
+  const indents = code
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => line.match(/^[ \t]*/)![0])
+    .filter((indent) => indent.length > 0);
+  const tabbed = indents.filter((indent) => indent.startsWith("\t")).length;
+  if (tabbed > indents.length / 2) return { char: "\t", width: 4 };
+
+  const widths = indents
+    .filter((indent) => !indent.includes("\t"))
+    .map((indent) => indent.length);
+  const width = [2, 4, 8].find(
+    (w) => widths.includes(w) && widths.every((n) => n % w === 0),
+  );
+  return {
+    char: " ",
+    width: width ?? (widths.length ? Math.min(...widths) : 2),
+  };
+}
+
+function columns(indent: string, style: IndentStyle): number {
+  return [...indent].reduce(
+    (total, char) => total + (char === "\t" ? style.width : 1),
+    0,
+  );
+}
+
+function emitIndent(cols: number, style: IndentStyle): string {
+  if (style.char === " ") return " ".repeat(cols);
+  return (
+    "\t".repeat(Math.floor(cols / style.width)) +
+    " ".repeat(cols % style.width)
+  );
+}
+
+export function describeIndent(hole: Hole, style: IndentStyle): string {
+  const cols = columns(hole.indent, style);
+  const levels = Math.round(cols / style.width);
+  const marker = fillMarker(hole.id);
+  if (cols === 0) return `${marker} is at column 0`;
+  const amount = style.char === "\t" ? `${levels} tab(s)` : `${cols} spaces`;
+  const unit = style.char === "\t" ? "a tab" : `${style.width} spaces`;
+  return `${marker} is indented with ${amount} (${levels} level(s) of ${unit})`;
+}
+
+/**
+ * Re-indents a completion for the hole it fills. The first line continues
+ * the hole's line; later lines keep their indentation relative to the
+ * completion and are shifted to the hole's column in the file's style.
+ * Completions whose later lines already carry the hole's indentation
+ * (written as they would appear in the file) are recognised and not shifted
+ * twice.
+ */
+export function reindentFill(
+  fill: string,
+  hole: Hole,
+  style: IndentStyle,
+): string {
+  const [first, ...rest] = fill.split("\n");
+  const holeCols = columns(hole.indent, style);
+  const leading = (line: string) => columns(line.match(/^[ \t]*/)![0], style);
+  const firstCols = leading(first);
+  const restCols = rest.filter((line) => line.trim()).map(leading);
+  const minRest = restCols.length ? Math.min(...restCols) : firstCols;
+
+  const alreadyAbsolute =
+    firstCols === 0 && holeCols > 0 && minRest >= holeCols;
+  const base = alreadyAbsolute ? holeCols : Math.min(firstCols, minRest);
+
+  return [
+    first.trimStart(),
+    ...rest.map((line) =>
+      line.trim()
+        ? emitIndent(holeCols + leading(line) - base, style) +
+          line.trimStart()
+        : "",
+    ),
+  ].join("\n");
+}
+
+/** Re-indents raw completions for the holes of `code`. */
+export function reindentFills(
+  code: string,
+  fills: Map<number, string>,
+): Map<number, string> {
+  const style = detectIndentStyle(code);
+  const holes = new Map(findHoles(code).map((hole) => [hole.id, hole]));
+  return new Map(
+    [...fills].map(([id, fill]) => {
+      const hole = holes.get(id);
+      return [id, hole ? reindentFill(fill, hole, style) : fill];
+    }),
+  );
+}
@@ -32,9 +32,13 @@ describe("ModelResolver", () => {
   const noopFs = FileSystemService.of({
     readFile: () => Effect.succeed(""),
     writeFile: () => Effect.succeed(undefined),
+    writeFileAtomic: () => Effect.succeed(undefined),
     appendFile: () => Effect.succeed(undefined),
     ensureDir: () => Effect.succeed(undefined),
+    readDir: () => Effect.succeed([]),
     exists: () => Effect.succeed(false),
+    remove: () => Effect.succeed(undefined),
+    rename: () => Effect.succeed(undefined),
     join: (...segments: string[]) => segments.join("/"),
   });
 
@@ -84,4 +88,18 @@ describe("ModelResolver", () => {
       ModelResolver.filterModels(sampleModels, "gpo").map((model) => model.id),
     ).toEqual(["gpt-4o"]);
   });
+
+  test("finds fast models by whole id segments", () => {
+    const withIds = (...ids: string[]) =>
+      ids.map((id) => ({ ...sampleModels[0]!, id, name: id }));
+
+    expect(
+      ModelResolver.findFastModel(
+        withIds("gemini-2.5-pro", "gpt-4o-mini", "gemini-2.0-flash-001"),
+      )?.id,
+    ).toBe("gpt-4o-mini");
+    expect(
+      ModelResolver.findFastModel(withIds("gemini-2.5-pro", "claude-3.5")),
+    ).toBeUndefined();
+  });
 });
@@ -20,6 +20,10 @@ const SHORTCUT_PATTERNS: Record<ShortcutKey, RegExp> = {
   o: /^o\d/i,
 };
 
+// Id segments that mark the cheaper, faster variant of a model family; they
+// must stand on their own so that e.g. "gemini" does not count as "mini".
+const FAST_MODEL_HINT = /(^|[-_.])(mini|turbo|haiku|flash)($|[-_.])/i;
+
 const CONFIG_DIR = ".config/copilot-scripts";
 const SHORTCUT_FILE = "model-shortcuts.json";
 
@@ -84,6 +88,10 @@ export class ModelResolver {
     );
   }
 
+  static findFastModel(models: CopilotModel[]): CopilotModel | undefined {
+    return models.find((m) => FAST_MODEL_HINT.test(m.id));
+  }
+
   static createForTesting(
     copilot: Copilot,
     fs: FileSystem,
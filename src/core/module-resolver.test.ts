@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, realpath, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { createModuleResolver } from "./module-resolver.ts";
+
+describe("module-resolver", () => {
+  let root = "";
+  const file = (rel: string) => path.join(root, rel);
+
+  beforeAll(async () => {
+    root = await realpath(await mkdtemp(path.join(os.tmpdir(), "resolver-")));
+    const files: Record<string, string> = {
+      "package.json": JSON.stringify({ workspaces: ["packages/*", "app"] }),
+      "packages/shared/package.json": JSON.stringify({
+        name: "@mono/shared",
+        exports: {
+          ".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+          "./strings/*": "./src/strings/*.ts",
+        },
+      }),
+      "packages/shared/src/index.ts": "export const shared = 1;",
+      "packages/shared/src/strings/upper.ts": "export const upper = 1;",
+      "app/tsconfig.json": JSON.stringify({
+        compilerOptions: {
+          baseUrl: ".",
+          module: "ESNext",
+          moduleResolution: "Bundler",
+          paths: { "@/*": ["src/*"] },
+        },
+      }),
+      "app/src/utils/index.ts": "export const a = 1;",
+      "app/src/lib/b.ts": "export const b = 1;",
+    };
+    for (const [rel, contents] of Object.entries(files)) {
+      await mkdir(path.dirname(file(rel)), { recursive: true });
+      await writeFile(file(rel), contents);
+    }
+  });
+
+  afterAll(async () => {
+    if (root) await rm(root, { recursive: true, force: true });
+  });
+
+  test("follows tsconfig paths, directory indexes and .js specifiers", () => {
+    const resolver = createModuleResolver(file("app"));
+    const from = file("app/src/main.ts");
+
+    expect(resolver.resolve("@/utils", from)).toBe(file("app/src/utils/index.ts"));
+    expect(resolver.resolve("./lib/b.js", from)).toBe(file("app/src/lib/b.ts"));
+    expect(resolver.resolve("./utils", from)).toBe(file("app/src/utils/index.ts"));
+    expect(resolver.resolve("react", from)).toBeNull();
+  });
+
+  test("maps workspace packages through their exports to sources", () => {
+    const resolver = createModuleResolver(file("app"));
+    const from = file("app/src/main.ts");
+
+    expect(resolver.resolve("@mono/shared", from)).toBe(
+      file("packages/shared/src/index.ts"),
+    );
+    expect(resolver.resolve("@mono/shared/strings/upper", from)).toBe(
+      file("packages/shared/src/strings/upper.ts"),
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import path from "path";
+import ts from "typescript";
+
+export interface ModuleResolver {
+  /** Absolute path of the project source file `specifier` refers to, or null. */
+  readonly resolve: (specifier: string, fromFile: string) => string | null;
+}
+
+/** Used when no tsconfig.json/jsconfig.json applies to a file. */
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  allowJs: true,
+  resolveJsonModule: true,
+  allowImportingTsExtensions: true,
+  noEmit: true,
+};
+
+const CONFIG_NAMES = ["tsconfig.json", "jsconfig.json"];
+
+/** Export conditions tried in order; source-facing conditions first. */
+const CONDITIONS = [
+  "source",
+  "types",
+  "import",
+  "module",
+  "default",
+  "require",
+  "node",
+];
+
+const BUILD_DIRS = /^(?:\.\/)?(?:dist|lib|build|out)\//;
+
+type PackageExports =
+  | string
+  | null
+  | PackageExports[]
+  | { [key: string]: PackageExports };
+
+interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  exports?: PackageExports;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+function readJson<T>(file: string): T | undefined {
+  const text = ts.sys.readFile(file);
+  if (text === undefined) return undefined;
+  const { config, error } = ts.parseConfigFileTextToJson(file, text);
+  return error ? undefined : (config as T);
+}
+
+const isProjectFile = (file: string) =>
+  !file.endsWith(".d.ts") && !file.split(path.sep).includes("node_modules");
+
+function findConfig(fromDir: string): string | undefined {
+  for (const name of CONFIG_NAMES) {
+    const found = ts.findConfigFile(fromDir, ts.sys.fileExists, name);
+    if (found) return path.resolve(found);
+  }
+  return undefined;
+}
+
+function loadOptions(configPath: string): ts.CompilerOptions {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) return DEFAULT_OPTIONS;
+  const { options } = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    path.dirname(configPath),
+    undefined,
+    configPath,
+  );
+  return { ...options, allowJs: true, resolveJsonModule: true };
+}
+
+function pickTarget(entry: PackageExports | undefined): string | undefined {
+  if (entry === undefined || entry === null) return undefined;
+  if (typeof entry === "string") return entry;
+  if (Array.isArray(entry)) {
+    return entry.map(pickTarget).find((target) => target !== undefined);
+  }
+  const condition = CONDITIONS.find((name) => name in entry);
+  return pickTarget(condition ? entry[condition] : Object.values(entry)[0]);
+}
+
+/** Maps a subpath such as "." or "./utils" through a package's `exports`. */
+function exportsTarget(
+  exports: PackageExports | undefined,
+  subpath: string,
+): string | undefined {
+  if (exports === undefined || exports === null) return undefined;
+  if (typeof exports === "string" || Array.isArray(exports)) {
+    return subpath === "." ? pickTarget(exports) : undefined;
+  }
+  const keys = Object.keys(exports);
+  if (!keys.some((key) => key.startsWith("."))) {
+    return subpath === "." ? pickTarget(exports) : undefined;
+  }
+  if (subpath in exports) return pickTarget(exports[subpath]);
+
+  const wildcard = keys
+    .filter((key) => key.includes("*"))
+    .map((key) => {
+      const star = key.indexOf("*");
+      return { key, prefix: key.slice(0, star), suffix: key.slice(star + 1) };
+    })
+    .find(
+      ({ prefix, suffix }) =>
+        subpath.startsWith(prefix) && subpath.endsWith(suffix),
+    );
+  if (!wildcard) return undefined;
+  const match = subpath.slice(
+    wildcard.prefix.length,
+    subpath.length - wildcard.suffix.length,
+  );
+  return pickTarget(exports[wildcard.key])?.replaceAll("*", match);
+}
+
+function expandWorkspacePattern(base: string, pattern: string): string[] {
+  const clean = pattern.replace(/^\.\//, "").replace(/\/\*\*?$/, "/*");
+  if (!clean.endsWith("/*")) return [path.join(base, clean)];
+  const parent = path.join(base, clean.slice(0, -2));
+  return ts.sys.getDirectories(parent).map((dir) => path.join(parent, dir));
+}
+
+function pnpmWorkspacePatterns(file: string): string[] {
+  const text = ts.sys.readFile(file) ?? "";
+  return [...text.matchAll(/^\s*-\s*['"]?([^'"\n#]+?)['"]?\s*$/gm)]
+    .map((match) => match[1])
+    .filter((pattern) => !pattern.startsWith("!"));
+}
+
+/**
+ * Finds the workspace root above `root` (a package.json with `workspaces` or
+ * a pnpm-workspace.yaml) and maps each workspace package name to its
+ * directory.
+ */
+function findWorkspacePackages(root: string): Map<string, string> {
+  for (let dir = root; ; dir = path.dirname(dir)) {
+    const manifest = readJson<PackageManifest>(path.join(dir, "package.json"));
+    const pnpm = path.join(dir, "pnpm-workspace.yaml");
+    const patterns = ts.sys.fileExists(pnpm)
+      ? pnpmWorkspacePatterns(pnpm)
+      : Array.isArray(manifest?.workspaces)
+        ? manifest.workspaces
+        : (manifest?.workspaces?.packages ?? []);
+
+    if (patterns.length > 0) {
+      return new Map(
+        patterns
+          .flatMap((pattern) => expandWorkspacePattern(dir, pattern))
+          .map((pkgDir) => [
+            readJson<PackageManifest>(path.join(pkgDir, "package.json"))?.name,
+            pkgDir,
+          ])
+          .filter((entry): entry is [string, string] => entry[0] !== undefined),
+      );
+    }
+    if (path.dirname(dir) === dir) return new Map();
+  }
+}
+
+/**
+ * Resolves import specifiers the way TypeScript does: the nearest
+ * tsconfig.json or jsconfig.json supplies `paths`, `baseUrl` and the module
+ * resolution mode, which covers directory `index` files, `.js` specifiers
+ * that name `.ts` sources, and package `exports`. Workspace packages that
+ * are not linked into node_modules are looked up in the workspace manifests,
+ * preferring sources over build output. Files inside node_modules and
+ * declaration files are never returned.
+ */
+export function createModuleResolver(root: string): ModuleResolver {
+  const optionsByConfig = new Map<string, ts.CompilerOptions>();
+  let workspace: Map<string, string> | undefined;
+
+  const optionsFor = (fromFile: string) => {
+    const config = findConfig(path.dirname(fromFile));
+    if (!config) return DEFAULT_OPTIONS;
+    const cached = optionsByConfig.get(config);
+    if (cached) return cached;
+    const options = loadOptions(config);
+    optionsByConfig.set(config, options);
+    return options;
+  };
+
+  const resolveWith = (
+    specifier: string,
+    fromFile: string,
+    options: ts.CompilerOptions,
+  ) => {
+    const resolved = ts.resolveModuleName(specifier, fromFile, options, ts.sys)
+      .resolvedModule?.resolvedFileName;
+    return resolved && isProjectFile(resolved) ? path.resolve(resolved) : null;
+  };
+
+  const resolveWorkspace = (specifier: string, options: ts.CompilerOptions) => {
+    workspace ??= findWorkspacePackages(root);
+    const name = [...workspace.keys()]
+      .filter((pkg) => specifier === pkg || specifier.startsWith(pkg + "/"))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!name) return null;
+
+    const pkgDir = workspace.get(name)!;
+    const manifest =
+      readJson<PackageManifest>(path.join(pkgDir, "package.json")) ?? {};
+    const subpath = "." + specifier.slice(name.length);
+    const target =
+      exportsTarget(manifest.exports, subpath) ??
+      (subpath === "."
+        ? (manifest.types ?? manifest.module ?? manifest.main ?? "./index")
+        : subpath);
+
+    const candidates = [target, target.replace(BUILD_DIRS, "src/")];
+    const anchor = path.join(pkgDir, "package.json");
+    return (
+      candidates
+        .map((candidate) =>
+          resolveWith(
+            "./" + candidate.replace(/^\.\//, "").replace(/\.d\.ts$/, ".ts"),
+            anchor,
+            options,
+          ),
+        )
+        .find((resolved) => resolved !== null) ?? null
+    );
+  };
+
+  return {
+    resolve: (specifier, fromFile) => {
+      const options = optionsFor(fromFile);
+      return (
+        resolveWith(specifier, fromFile, options) ??
+        (specifier.startsWith(".") ? null : resolveWorkspace(specifier, options))
+      );
+    },
+  };
+}
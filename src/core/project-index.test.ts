@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  realpath,
+  rm,
+  utimes,
+  writeFile,
+} from "fs/promises";
+import os from "os";
+import path from "path";
+import { findProjectRoot, loadProjectIndex } from "./project-index.ts";
+
+describe("project-index", () => {
+  let root = "";
+  const file = (rel: string) => path.join(root, rel);
+  const relative = (files: string[]) =>
+    files.map((f) => path.relative(root, f)).sort();
+  const cachePath = () => file(".copilot-scripts/index/files.json");
+  const touch = (rel: string, seconds: number) => {
+    const time = new Date(Date.now() + seconds * 1000);
+    return utimes(file(rel), time, time);
+  };
+
+  beforeAll(async () => {
+    root = await realpath(await mkdtemp(path.join(os.tmpdir(), "index-")));
+    const files: Record<string, string> = {
+      "src/utils.ts": "export const a = 1;\nexport function helper() {}\n",
+      "src/lib/utils.ts": "export const b = 2;\n",
+      "src/app.ts": 'import { a } from "./utils";\n',
+      "src/lib/other.ts": 'import { b } from "./utils";\nimport "./later";\n',
+      "src/main.ts": 'import "./app";\nimport "./lib/utils.ts";\n',
+    };
+    for (const [rel, contents] of Object.entries(files)) {
+      await mkdir(path.dirname(file(rel)), { recursive: true });
+      await writeFile(file(rel), contents);
+    }
+  });
+
+  afterAll(async () => {
+    if (root) await rm(root, { recursive: true, force: true });
+  });
+
+  test("indexes imports by resolved path and exported symbols", () => {
+    const index = loadProjectIndex(root);
+
+    expect(relative(index.importersOf(file("src/utils.ts")))).toEqual([
+      "src/app.ts",
+    ]);
+    expect(relative(index.importersOf(file("src/lib/utils.ts")))).toEqual([
+      "src/lib/other.ts",
+      "src/main.ts",
+    ]);
+    expect(relative(index.importsOf(file("src/main.ts")))).toEqual([
+      "src/app.ts",
+      "src/lib/utils.ts",
+    ]);
+    expect(index.get(file("src/utils.ts"))?.exports).toEqual(["a", "helper"]);
+    expect(relative(index.definersOf("b"))).toEqual(["src/lib/utils.ts"]);
+  });
+
+  test("writes the cache only when saved", async () => {
+    const index = loadProjectIndex(root);
+    expect(await Bun.file(cachePath()).exists()).toBe(false);
+    index.save();
+    expect(await Bun.file(cachePath()).exists()).toBe(true);
+  });
+
+  test("only re-reads files whose mtime changed and re-parses changed content", async () => {
+    const cache = JSON.parse(await readFile(cachePath(), "utf8"));
+    // Tamper with the cached result to see whether it is served back.
+    cache.files["src/app.ts"].imports = ["src/lib/utils.ts"];
+    await writeFile(cachePath(), JSON.stringify(cache));
+
+    const served = () => {
+      const index = loadProjectIndex(root);
+      index.save();
+      return relative(index.importsOf(file("src/app.ts")));
+    };
+    expect(served()).toEqual(["src/lib/utils.ts"]);
+
+    // Same content, new mtime: the hash matches, so nothing is re-parsed.
+    await touch("src/app.ts", 5);
+    expect(served()).toEqual(["src/lib/utils.ts"]);
+
+    await writeFile(file("src/app.ts"), 'import { a } from "./utils";\n\n');
+    await touch("src/app.ts", 10);
+    expect(served()).toEqual(["src/utils.ts"]);
+  });
+
+  test("re-resolves missing imports when files are added", async () => {
+    await writeFile(file("src/lib/later.ts"), "export const c = 3;\n");
+
+    const index = loadProjectIndex(root);
+    expect(relative(index.importersOf(file("src/lib/later.ts")))).toEqual([
+      "src/lib/other.ts",
+    ]);
+  });
+
+  test("caches token counts per tokenizer", async () => {
+    const counter = {
+      name: "words",
+      count: (text: string) => text.trim().split(/\s+/).length,
+    };
+    const index = loadProjectIndex(root);
+    expect(index.tokens(file("src/lib/utils.ts"), counter)).toBe(5);
+    index.save();
+
+    const cache = JSON.parse(await readFile(cachePath(), "utf8"));
+    expect(cache.files["src/lib/utils.ts"].tokens).toEqual({ words: 5 });
+  });
+
+  test("finds the repository root, and none outside a repository", async () => {
+    expect(findProjectRoot(file("src/lib"))).toBeUndefined();
+    await mkdir(file(".git"));
+    expect(findProjectRoot(file("src/lib"))).toBe(root);
+  });
+});
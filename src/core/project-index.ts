@@ -0,0 +1,303 @@
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import path from "path";
+import { getTokenCounter, type TokenCounter } from "../utils/tokenizer.ts";
+import {
+  createContextProviders,
+  findDependencies,
+} from "./context-providers.ts";
+import { exportedSymbols } from "./exported-symbols.ts";
+import { walkFiles } from "./file-walker.ts";
+
+/** Files that are indexed; everything else is walked but skipped. */
+const SOURCE_EXTENSIONS = new Set([
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".py",
+  ".pyi",
+  ".go",
+  ".rs",
+  ".c",
+  ".h",
+  ".cc",
+  ".cpp",
+  ".cxx",
+  ".hpp",
+  ".hh",
+  ".hxx",
+  ".rb",
+  ".java",
+  ".lua",
+]);
+
+/** Files whose contents change what imports resolve to. */
+const RESOLUTION_FILES =
+  /^(?:package\.json|pnpm-workspace\.yaml|[tj]sconfig(?:\..+)?\.json|go\.mod|Cargo\.toml)$/;
+
+const MAX_FILE_SIZE = 1024 * 1024;
+const CACHE_FILE = ".copilot-scripts/index/files.json";
+/** Bump when the cached shape or the extraction rules change. */
+const CACHE_VERSION = 1;
+
+interface IndexEntry {
+  mtimeMs: number;
+  hash: string;
+  /** Resolved imports, relative to the root. */
+  imports: string[];
+  exports: string[];
+  /** Token counts by tokenizer name, filled in on demand. */
+  tokens: Record<string, number>;
+}
+
+interface IndexCache {
+  version: number;
+  /** mtimes of the RESOLUTION_FILES, relative to the root. */
+  resolution: Record<string, number>;
+  files: Record<string, IndexEntry>;
+}
+
+export interface IndexedFile {
+  file: string;
+  imports: string[];
+  exports: string[];
+}
+
+export interface ProjectIndex {
+  readonly root: string;
+  /** Absolute paths of every indexed source file. */
+  readonly files: string[];
+  readonly get: (file: string) => IndexedFile | undefined;
+  /** Absolute paths `file` imports, resolved the way the context providers do. */
+  readonly importsOf: (file: string) => string[];
+  /** Absolute paths of the indexed files importing `file`. */
+  readonly importersOf: (file: string) => string[];
+  /** Absolute paths of the indexed files exporting a symbol called `name`. */
+  readonly definersOf: (name: string) => string[];
+  /** Token count of a file's contents, cached per tokenizer once computed. */
+  readonly tokens: (file: string, counter?: TokenCounter) => number;
+  /**
+   * Writes what changed since the index was loaded to the cache. Failing to
+   * write is not an error; the next load rebuilds what is missing.
+   */
+  readonly save: () => void;
+}
+
+export const isSourceFile = (file: string) =>
+  SOURCE_EXTENSIONS.has(path.extname(file).toLowerCase());
+
+const hashOf = (content: string) =>
+  createHash("sha1").update(content).digest("hex");
+
+function readCache(file: string): IndexCache {
+  const empty = { version: CACHE_VERSION, resolution: {}, files: {} };
+  if (!existsSync(file)) return empty;
+  try {
+    const cache = JSON.parse(readFileSync(file, "utf8")) as IndexCache;
+    return cache.version === CACHE_VERSION ? cache : empty;
+  } catch {
+    return empty;
+  }
+}
+
+function writeCache(file: string, cache: IndexCache) {
+  mkdirSync(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  writeFileSync(temp, JSON.stringify(cache));
+  renameSync(temp, file);
+}
+
+/**
+ * Nearest directory from `fromDir` upwards holding a `.git`. Outside a
+ * repository there is no root: walking a home or temp directory instead would
+ * index far more than a project.
+ */
+export function findProjectRoot(fromDir: string): string | undefined {
+  for (let dir = path.resolve(fromDir); ; dir = path.dirname(dir)) {
+    if (existsSync(path.join(dir, ".git"))) return dir;
+    if (path.dirname(dir) === dir) return undefined;
+  }
+}
+
+/** Stats of `file`, or undefined when it vanished or cannot be read. */
+function statOf(file: string) {
+  try {
+    return statSync(file);
+  } catch {
+    return undefined;
+  }
+}
+
+function readText(file: string) {
+  try {
+    return readFileSync(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+const sameRecord = (a: Record<string, number>, b: Record<string, number>) =>
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.entries(a).every(([key, value]) => b[key] === value);
+
+/**
+ * Indexes the source files under `root` that .gitignore does not exclude:
+ * their resolved imports, exported symbols and token counts. The index lives
+ * in `.copilot-scripts/index` and is updated incrementally. A file whose
+ * mtime is unchanged is not read; one whose content hash is unchanged is not
+ * re-parsed. Imports are re-resolved for every file when a tsconfig,
+ * package.json, go.mod or Cargo.toml changes, and for files with missing
+ * imports when files are added or removed. Files that cannot be read are
+ * left out. Nothing is written until `save` is called.
+ */
+export function loadProjectIndex(root: string): ProjectIndex {
+  const cachePath = path.join(root, CACHE_FILE);
+  const providers = createContextProviders(root);
+  const walked = walkFiles(root);
+  const rel = (file: string) => path.relative(root, path.resolve(file));
+
+  const resolution = Object.fromEntries(
+    walked
+      .filter((file) => RESOLUTION_FILES.test(path.basename(file)))
+      .map((file) => [rel(file), statOf(file)?.mtimeMs ?? 0]),
+  );
+  const sources = walked.filter(isSourceFile).flatMap((file) => {
+    const stat = statOf(file);
+    return stat && stat.size <= MAX_FILE_SIZE ? [{ file, stat }] : [];
+  });
+
+  const previous = readCache(cachePath);
+  const known = new Set(sources.map(({ file }) => rel(file)));
+  const resolutionChanged = !sameRecord(previous.resolution, resolution);
+  const filesChanged =
+    Object.keys(previous.files).length !== known.size ||
+    Object.keys(previous.files).some((key) => !known.has(key));
+  const needsResolve = (entry: IndexEntry) =>
+    resolutionChanged ||
+    (filesChanged &&
+      entry.imports.some(
+        (dep) => !known.has(dep) && !existsSync(path.join(root, dep)),
+      ));
+
+  const resolveImports = (file: string, content: string) =>
+    findDependencies(providers, file, content)
+      .filter((dep) => dep !== file)
+      .map(rel);
+
+  const entries: Record<string, IndexEntry> = {};
+  let dirty = resolutionChanged || filesChanged;
+
+  for (const { file, stat } of sources) {
+    const key = rel(file);
+    const hit = previous.files[key];
+    if (hit && hit.mtimeMs === stat.mtimeMs && !needsResolve(hit)) {
+      entries[key] = hit;
+      continue;
+    }
+    dirty = true;
+    const content = readText(file);
+    if (content === undefined) continue;
+    const hash = hashOf(content);
+    entries[key] =
+      hit && hit.hash === hash
+        ? {
+            ...hit,
+            mtimeMs: stat.mtimeMs,
+            imports: needsResolve(hit)
+              ? resolveImports(file, content)
+              : hit.imports,
+          }
+        : {
+            mtimeMs: stat.mtimeMs,
+            hash,
+            imports: resolveImports(file, content),
+            exports: exportedSymbols(file, content),
+            tokens: {},
+          };
+  }
+
+  const save = () => {
+    if (!dirty) return;
+    try {
+      writeCache(cachePath, {
+        version: CACHE_VERSION,
+        resolution,
+        files: entries,
+      });
+      dirty = false;
+    } catch {
+      // Read-only checkouts still get an index, just not a cached one.
+    }
+  };
+
+  const importers = new Map<string, string[]>();
+  const definers = new Map<string, string[]>();
+  const append = (map: Map<string, string[]>, key: string, value: string) => {
+    const list = map.get(key) ?? [];
+    list.push(value);
+    map.set(key, list);
+  };
+  for (const [key, entry] of Object.entries(entries)) {
+    for (const dep of entry.imports) append(importers, dep, key);
+    for (const name of entry.exports) append(definers, name, key);
+  }
+
+  const absolute = (rels: string[]) => rels.map((r) => path.join(root, r));
+
+  return {
+    root,
+    files: absolute(Object.keys(entries)),
+    get: (file) => {
+      const entry = entries[rel(file)];
+      return entry
+        ? {
+            file: path.resolve(file),
+            imports: absolute(entry.imports),
+            exports: entry.exports,
+          }
+        : undefined;
+    },
+    importsOf: (file) => absolute(entries[rel(file)]?.imports ?? []),
+    importersOf: (file) => absolute(importers.get(rel(file)) ?? []),
+    definersOf: (name) => absolute(definers.get(name) ?? []),
+    tokens: (file, counter = getTokenCounter()) => {
+      const entry = entries[rel(file)];
+      const cached = entry?.tokens[counter.name];
+      if (cached !== undefined) return cached;
+      const count = counter.count(readFileSync(file, "utf8"));
+      if (entry) {
+        entry.tokens = { ...entry.tokens, [counter.name]: count };
+        dirty = true;
+      }
+      return count;
+    },
+    save,
+  };
+}
+
+/** An index of nothing, for files outside any repository. */
+export function emptyProjectIndex(root: string): ProjectIndex {
+  return {
+    root,
+    files: [],
+    get: () => undefined,
+    importsOf: () => [],
+    importersOf: () => [],
+    definersOf: () => [],
+    tokens: (file, counter = getTokenCounter()) =>
+      counter.count(readFileSync(file, "utf8")),
+    save: () => {},
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { extractSummary, parsePlan } from "./refactor-plan.ts";
+
+describe("refactor plan", () => {
+  test("parses steps with their target files", () => {
+    const response = [
+      "Here is the plan:",
+      '<step files="types.ts">',
+      "Change User.id to a string.",
+      "</step>",
+      '<step files="./user-service.ts, app.ts, user-service.ts">',
+      "Generate ids with crypto.randomUUID() and update lookups.",
+      "</step>",
+      '<step files="">   </step>',
+    ].join("\n");
+
+    expect(parsePlan(response)).toEqual([
+      { task: "Change User.id to a string.", files: ["types.ts"] },
+      {
+        task: "Generate ids with crypto.randomUUID() and update lookups.",
+        files: ["user-service.ts", "app.ts"],
+      },
+    ]);
+  });
+
+  test("extracts the summaries of a response", () => {
+    expect(
+      extractSummary(
+        '<patch block="1">x</patch>\n<summary>\nRenamed x.\n</summary>',
+      ),
+    ).toBe("Renamed x.");
+    expect(extractSummary("no summary")).toBe("");
+  });
+});
@@ -0,0 +1,34 @@
+/** One sub-task of a planned refactor. */
+export interface PlanStep {
+  task: string;
+  /** Files the step edits or creates, relative to the project root. */
+  files: string[];
+}
+
+const STEP = /<step\s+files="([^"]*)"\s*>([\s\S]*?)<\/step>/g;
+const SUMMARY = /<summary>([\s\S]*?)<\/summary>/g;
+
+/** Reads the `<step files="a.ts, b.ts">...</step>` commands of a plan. */
+export function parsePlan(response: string): PlanStep[] {
+  return [...response.matchAll(STEP)]
+    .map((match) => ({
+      task: match[2].trim(),
+      files: [
+        ...new Set(
+          match[1]
+            .split(",")
+            .map((file) => file.trim().replace(/^\.\//, ""))
+            .filter(Boolean),
+        ),
+      ],
+    }))
+    .filter((step) => step.task !== "");
+}
+
+/** Text of the `<summary>` blocks of an editing response, joined. */
+export function extractSummary(response: string): string {
+  return [...response.matchAll(SUMMARY)]
+    .map((match) => match[1].trim())
+    .filter(Boolean)
+    .join("\n");
+}
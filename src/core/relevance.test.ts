@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { graphDistances, identifierTerms, rankBlocks } from "./relevance.ts";
+
+describe("relevance", () => {
+  test("splits identifiers into searchable terms", () => {
+    expect(identifierTerms("getUserData(user_id)")).toEqual([
+      "getuserdata",
+      "get",
+      "user",
+      "data",
+      "user_id",
+      "user",
+      "id",
+    ]);
+  });
+
+  test("measures import-graph hops in both directions", () => {
+    const edges: Record<string, string[]> = {
+      "app.ts": ["db.ts"],
+      "db.ts": ["app.ts", "pool.ts"],
+      "pool.ts": ["db.ts"],
+    };
+    const distances = graphDistances("app.ts", (node) => edges[node] ?? []);
+    expect([...distances]).toEqual([
+      ["app.ts", 0],
+      ["db.ts", 1],
+      ["pool.ts", 2],
+    ]);
+  });
+
+  test("keeps entry, matching and linked blocks and drops the rest", () => {
+    const blocks = [
+      { id: 0, file: "app.ts", content: "const user = loadUser(id);" },
+      { id: 1, file: "users.ts", content: "export function loadUser(id) {}" },
+      {
+        id: 2,
+        file: "users.ts",
+        content: "export function deleteAccount() {}",
+      },
+      { id: 3, file: "ids.ts", content: "export function newUuid() {}" },
+      { id: 4, file: "caller.ts", content: "console.log(user);" },
+    ];
+    const ranked = rankBlocks(blocks, {
+      task: "Generate IDs with a UUID helper",
+      entryFile: "app.ts",
+      distances: new Map([
+        ["app.ts", 0],
+        ["users.ts", 1],
+      ]),
+    });
+
+    expect(ranked[0].block.id).toBe(0);
+    expect(
+      ranked
+        .filter(({ relevant }) => relevant)
+        .map(({ block }) => block.id)
+        .sort(),
+    ).toEqual([0, 1, 3, 4]);
+  });
+});
@@ -0,0 +1,154 @@
+/** Anything with an id, the file it belongs to and its text. */
+export interface RankableBlock {
+  id: number;
+  file: string;
+  content: string;
+}
+
+export interface RankingContext {
+  /** The task prompt the blocks are ranked against. */
+  task: string;
+  /** File the task starts from; its blocks are always kept. */
+  entryFile: string;
+  /** Import-graph hops from the entry file; files missing are unreachable. */
+  distances: Map<string, number>;
+}
+
+export interface RankedBlock<B extends RankableBlock> {
+  block: B;
+  score: number;
+  /** False when nothing ties the block to the task or the entry file. */
+  relevant: boolean;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Share of the best text score a block needs to count as a text match. */
+const MIN_TEXT_SCORE = 0.05;
+const WEIGHTS = { text: 1, link: 0.5, proximity: 0.3, entry: 1 };
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from in into is it of on or so that the this to with we you".split(
+    " ",
+  ),
+);
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+
+/** Top-level declarations: `function f`, `export const x`, `def g`, `pub fn h`, ... */
+const DECLARATION =
+  /^(?:export\s+(?:default\s+)?|pub(?:\([^)]*\))?\s+|async\s+)*(?:function\*?|class|interface|type|enum|const|let|var|def|fn|struct|trait|func|mod)\s+([A-Za-z_$][\w$]*)/gm;
+
+const identifiers = (text: string) => text.match(IDENTIFIER) ?? [];
+
+/** Lower-cased identifiers plus their camelCase and snake_case parts. */
+export function identifierTerms(text: string): string[] {
+  return identifiers(text).flatMap((name) => {
+    const parts = name
+      .split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+      .filter(Boolean)
+      .map((part) => part.toLowerCase());
+    const whole = name.toLowerCase();
+    return parts.length > 1 ? [whole, ...parts] : [whole];
+  });
+}
+
+export function declaredNames(text: string): string[] {
+  return [...text.matchAll(DECLARATION)].map((match) => match[1]);
+}
+
+/** Breadth-first hop counts from `start` over an undirected neighbour relation. */
+export function graphDistances(
+  start: string,
+  neighbours: (node: string) => string[],
+): Map<string, number> {
+  const distances = new Map([[start, 0]]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    for (const next of neighbours(node)) {
+      if (distances.has(next)) continue;
+      distances.set(next, distances.get(node)! + 1);
+      queue.push(next);
+    }
+  }
+  return distances;
+}
+
+function bm25(documents: string[][], query: string[]): number[] {
+  const count = documents.length;
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(count, 1);
+  const frequencies = documents.map((doc) =>
+    doc.reduce(
+      (map, term) => map.set(term, (map.get(term) ?? 0) + 1),
+      new Map<string, number>(),
+    ),
+  );
+  const idf = new Map(
+    [...new Set(query)].map((term) => {
+      const df = frequencies.filter((freq) => freq.has(term)).length;
+      return [term, Math.log(1 + (count - df + 0.5) / (df + 0.5))];
+    }),
+  );
+
+  return documents.map((doc, i) =>
+    [...idf].reduce((score, [term, weight]) => {
+      const tf = frequencies[i].get(term) ?? 0;
+      if (tf === 0) return score;
+      const norm = 1 - BM25_B + (BM25_B * doc.length) / (averageLength || 1);
+      return score + (weight * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+    }, 0),
+  );
+}
+
+/**
+ * Scores blocks against a task without calling a model. The score mixes
+ * BM25 over identifier terms, whether the block declares a name the entry
+ * file uses or uses a name the entry file declares, and import-graph
+ * proximity to the entry file. Blocks of the entry file always stay relevant;
+ * other blocks with no text match and no link to the entry file do not.
+ * Returns the blocks best first.
+ */
+export function rankBlocks<B extends RankableBlock>(
+  blocks: B[],
+  context: RankingContext,
+): RankedBlock<B>[] {
+  const query = identifierTerms(context.task).filter(
+    (term) => term.length > 1 && !STOPWORDS.has(term),
+  );
+  const textScores = bm25(
+    blocks.map((block) => identifierTerms(block.content)),
+    query,
+  );
+  const bestText = Math.max(...textScores, 0);
+
+  const entryText = blocks
+    .filter((block) => block.file === context.entryFile)
+    .map((block) => block.content)
+    .join("\n");
+  const entryUses = new Set(identifiers(entryText));
+  const entryDeclares = new Set(declaredNames(entryText));
+
+  return blocks
+    .map((block, i) => {
+      const isEntry = block.file === context.entryFile;
+      const text = bestText > 0 ? textScores[i] / bestText : 0;
+      const linked =
+        !isEntry &&
+        (declaredNames(block.content).some((name) => entryUses.has(name)) ||
+          identifiers(block.content).some((name) => entryDeclares.has(name)));
+      const distance = context.distances.get(block.file);
+      const proximity = distance === undefined ? 0 : 1 / (1 + distance);
+      return {
+        block,
+        score:
+          WEIGHTS.text * text +
+          (linked ? WEIGHTS.link : 0) +
+          WEIGHTS.proximity * proximity +
+          (isEntry ? WEIGHTS.entry : 0),
+        relevant: isEntry || linked || text >= MIN_TEXT_SCORE,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
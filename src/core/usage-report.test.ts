@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { formatUsage, summarizeUsage } from "./usage-report.ts";
+
+const at = (day: number, hour: number) =>
+  new Date(2026, 9, day, hour).getTime();
+
+const record = (
+  timestamp: number,
+  tool: string,
+  model: string,
+  estimated = false,
+) => ({
+  timestamp,
+  tool,
+  model,
+  promptTokens: 100,
+  completionTokens: 20,
+  cachedTokens: estimated ? 0 : 40,
+  estimated,
+});
+
+describe("usage report", () => {
+  test("sums requests by day, tool and model, newest day first", () => {
+    const rows = summarizeUsage([
+      record(at(17, 9), "refactor", "gpt-4.1"),
+      record(at(18, 8), "refactor", "gpt-4.1"),
+      record(at(18, 20), "refactor", "gpt-4.1", true),
+      record(at(18, 10), "chatsh", "claude-sonnet-4"),
+    ]);
+
+    expect(rows).toEqual([
+      {
+        day: "2026-10-18",
+        tool: "chatsh",
+        model: "claude-sonnet-4",
+        requests: 1,
+        promptTokens: 100,
+        cachedTokens: 40,
+        completionTokens: 20,
+        estimated: 0,
+      },
+      {
+        day: "2026-10-18",
+        tool: "refactor",
+        model: "gpt-4.1",
+        requests: 2,
+        promptTokens: 200,
+        cachedTokens: 40,
+        completionTokens: 40,
+        estimated: 1,
+      },
+      {
+        day: "2026-10-17",
+        tool: "refactor",
+        model: "gpt-4.1",
+        requests: 1,
+        promptTokens: 100,
+        cachedTokens: 40,
+        completionTokens: 20,
+        estimated: 0,
+      },
+    ]);
+  });
+
+  test("formats a table with totals and marks estimates", () => {
+    const table = formatUsage(
+      summarizeUsage([
+        record(at(18, 8), "refactor", "gpt-4.1"),
+        record(at(18, 9), "holefill", "gpt-4.1", true),
+      ]),
+    );
+
+    expect(table.split("\n")).toEqual([
+      "day         tool      model    requests  prompt  cached  completion",
+      "2026-10-18  holefill  gpt-4.1         1    ~100       0         ~20",
+      "2026-10-18  refactor  gpt-4.1         1     100      40          20",
+      "-------------------------------------------------------------------",
+      "total                                 2    ~200      40         ~40",
+    ]);
+    expect(formatUsage([])).toBe("No usage recorded.");
+  });
+});
@@ -0,0 +1,127 @@
+import type { UsageRecord } from "../schemas/index.ts";
+
+type UsageEntry = Pick<
+  UsageRecord,
+  | "timestamp"
+  | "tool"
+  | "model"
+  | "promptTokens"
+  | "completionTokens"
+  | "cachedTokens"
+  | "estimated"
+>;
+
+/** Token totals of one day, tool and model. */
+export interface UsageRow {
+  day: string;
+  tool: string;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  cachedTokens: number;
+  completionTokens: number;
+  /** Requests whose counts were estimated locally. */
+  estimated: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Local calendar day of a timestamp, as YYYY-MM-DD. */
+export const dayOf = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Sums usage by day, tool and model; newest day first, then by tool and model. */
+export function summarizeUsage(records: readonly UsageEntry[]): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+  for (const record of records) {
+    const day = dayOf(record.timestamp);
+    const key = [day, record.tool, record.model].join("\0");
+    const row = rows.get(key) ?? {
+      day,
+      tool: record.tool,
+      model: record.model,
+      requests: 0,
+      promptTokens: 0,
+      cachedTokens: 0,
+      completionTokens: 0,
+      estimated: 0,
+    };
+    row.requests++;
+    row.promptTokens += record.promptTokens;
+    row.cachedTokens += record.cachedTokens;
+    row.completionTokens += record.completionTokens;
+    if (record.estimated) row.estimated++;
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort(
+    (a, b) =>
+      b.day.localeCompare(a.day) ||
+      a.tool.localeCompare(b.tool) ||
+      a.model.localeCompare(b.model),
+  );
+}
+
+const HEADERS = [
+  "day",
+  "tool",
+  "model",
+  "requests",
+  "prompt",
+  "cached",
+  "completion",
+] as const;
+
+/**
+ * Renders rows as an aligned table with a total line. Counts that include
+ * estimates are marked with `~`.
+ */
+export function formatUsage(rows: readonly UsageRow[]): string {
+  if (rows.length === 0) return "No usage recorded.";
+  const total = rows.reduce(
+    (sum, row) => ({
+      ...sum,
+      requests: sum.requests + row.requests,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      cachedTokens: sum.cachedTokens + row.cachedTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      estimated: sum.estimated + row.estimated,
+    }),
+    {
+      day: "total",
+      tool: "",
+      model: "",
+      requests: 0,
+      promptTokens: 0,
+      cachedTokens: 0,
+      completionTokens: 0,
+      estimated: 0,
+    },
+  );
+  const cells = [...rows, total].map((row) => {
+    const mark = row.estimated > 0 ? "~" : "";
+    return [
+      row.day,
+      row.tool,
+      row.model,
+      String(row.requests),
+      mark + row.promptTokens,
+      String(row.cachedTokens),
+      mark + row.completionTokens,
+    ];
+  });
+  const widths = HEADERS.map((header, i) =>
+    Math.max(header.length, ...cells.map((line) => line[i].length)),
+  );
+  const render = (line: readonly string[]) =>
+    line
+      .map((cell, i) =>
+        i < 3 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]),
+      )
+      .join("  ")
+      .trimEnd();
+  const lines = [HEADERS, ...cells].map(render);
+  lines.splice(-1, 0, "-".repeat(lines[0].length));
+  return lines.join("\n");
+}
@@ -7,8 +7,14 @@ export class AuthError extends Error {
 
 export class ApiError extends Error {
   readonly _tag = "ApiError";
-  constructor(message: string) {
+  /** HTTP status of the response; absent when the request never got one. */
+  readonly status: number | undefined;
+  /** Milliseconds the API asked to wait before trying again. */
+  readonly retryAfter: number | undefined;
+  constructor(message: string, status?: number, retryAfter?: number) {
     super(message);
+    this.status = status;
+    this.retryAfter = retryAfter;
   }
 }
 
@@ -33,4 +39,25 @@ export class HighlightError extends Error {
   }
 }
 
-export type AppError = AuthError | ApiError | FsError | ParseError | HighlightError;
+export class LspError extends Error {
+  readonly _tag = "LspError";
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+export class TruncatedError extends Error {
+  readonly _tag = "TruncatedError";
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+export type AppError =
+  | AuthError
+  | ApiError
+  | FsError
+  | ParseError
+  | HighlightError
+  | LspError
+  | TruncatedError;
@@ -3,6 +3,10 @@ export * from "./services/AuthService.ts";
 export * from "./services/CopilotService.ts";
 export * from "./services/FileSystemService.ts";
 export * from "./services/LogService.ts";
+export * from "./services/SessionService.ts";
+export * from "./services/RefactorJournalService.ts";
+export * from "./services/LspService.ts";
+export * from "./services/UsageService.ts";
 export * from "./core/model-resolver.ts";
 export * from "./core/chat-instance.ts";
 export * from "./api/models.ts";
@@ -4,23 +4,46 @@ import { FileSystemService } from "./services/FileSystemService.ts";
 import { LogService } from "./services/LogService.ts";
 import { AuthService } from "./services/AuthService.ts";
 import { CopilotService } from "./services/CopilotService.ts";
+import { SessionService } from "./services/SessionService.ts";
+import { RefactorJournalService } from "./services/RefactorJournalService.ts";
+import { LspService } from "./services/LspService.ts";
+import { UsageService } from "./services/UsageService.ts";
 import { TokenStore } from "./auth/token-store.ts";
+import type { RetryPolicy } from "./utils/retry.ts";
 
-export const AppLayer = Layer.mergeAll(
-  CopilotService.layer,
-  LogService.layer,
-).pipe(
-  Layer.provideMerge(AuthService.layer),
-  Layer.provideMerge(TokenStore.layer),
-  Layer.provideMerge(FileSystemService.layer),
-);
+export interface RuntimeOptions {
+  /** Retry policy of Copilot API calls; unset fields keep their defaults. */
+  retry?: Partial<RetryPolicy>;
+}
+
+export const makeAppLayer = (options: RuntimeOptions = {}) =>
+  Layer.mergeAll(
+    CopilotService.make(options),
+    LogService.layer,
+    SessionService.layer,
+    RefactorJournalService.layer,
+    LspService.layer,
+    UsageService.layer,
+  ).pipe(
+    Layer.provideMerge(AuthService.layer),
+    Layer.provideMerge(TokenStore.layer),
+    Layer.provideMerge(FileSystemService.layer),
+  );
+
+export const AppLayer = makeAppLayer();
 
 export type AppDeps =
   | CopilotService
   | LogService
+  | SessionService
+  | RefactorJournalService
+  | LspService
+  | UsageService
   | AuthService
   | TokenStore
   | FileSystemService;
 
-export const runMain = <E, A>(program: Effect.Effect<A, E, AppDeps>) =>
-  Effect.runPromise(program.pipe(Effect.provide(AppLayer)));
+export const runMain = <E, A>(
+  program: Effect.Effect<A, E, AppDeps>,
+  options: RuntimeOptions = {},
+) => Effect.runPromise(program.pipe(Effect.provide(makeAppLayer(options))));
@@ -66,3 +66,90 @@ export class ModelsResponse extends Schema.Class<ModelsResponse>(
 )({
   data: Schema.Array(ModelEntry),
 }) {}
+
+export class ToolCallSchema extends Schema.Class<ToolCallSchema>("ToolCallSchema")({
+  id: Schema.String,
+  name: Schema.String,
+  arguments: Schema.String,
+}) {}
+
+export class ChatMessageSchema extends Schema.Class<ChatMessageSchema>(
+  "ChatMessageSchema",
+)({
+  role: Schema.Literal("system", "user", "assistant", "tool"),
+  content: Schema.String,
+  tool_calls: Schema.optional(Schema.Array(ToolCallSchema)),
+  tool_call_id: Schema.optional(Schema.String),
+}) {}
+
+export class SessionHeaderEntry extends Schema.Class<SessionHeaderEntry>(
+  "SessionHeaderEntry",
+)({
+  type: Schema.Literal("session"),
+  id: Schema.String,
+  model: Schema.String,
+  cwd: Schema.String,
+  createdAt: Schema.Number,
+}) {}
+
+export class SessionMessageEntry extends Schema.Class<SessionMessageEntry>(
+  "SessionMessageEntry",
+)({
+  type: Schema.Literal("message"),
+  timestamp: Schema.Number,
+  message: ChatMessageSchema,
+}) {}
+
+export class SessionModelEntry extends Schema.Class<SessionModelEntry>(
+  "SessionModelEntry",
+)({
+  type: Schema.Literal("model"),
+  timestamp: Schema.Number,
+  model: Schema.String,
+}) {}
+
+export const SessionEntry = Schema.Union(
+  SessionHeaderEntry,
+  SessionMessageEntry,
+  SessionModelEntry,
+);
+
+export class JournalFile extends Schema.Class<JournalFile>("JournalFile")({
+  file: Schema.String,
+  before: Schema.NullOr(Schema.String),
+  after: Schema.NullOr(Schema.String),
+}) {}
+
+export class RefactorRun extends Schema.Class<RefactorRun>("RefactorRun")({
+  id: Schema.String,
+  createdAt: Schema.Number,
+  cwd: Schema.String,
+  model: Schema.String,
+  prompt: Schema.String,
+  response: Schema.String,
+  files: Schema.Array(JournalFile),
+  undoneAt: Schema.optional(Schema.Number),
+}) {}
+
+export class LanguageServerConfig extends Schema.Class<LanguageServerConfig>(
+  "LanguageServerConfig",
+)({
+  languageId: Schema.String,
+  /** Executable and arguments, e.g. ["typescript-language-server", "--stdio"]. */
+  command: Schema.Array(Schema.String),
+  extensions: Schema.Array(Schema.String),
+}) {}
+
+export const LanguageServerConfigs = Schema.Array(LanguageServerConfig);
+
+export class UsageRecord extends Schema.Class<UsageRecord>("UsageRecord")({
+  timestamp: Schema.Number,
+  tool: Schema.String,
+  model: Schema.String,
+  cwd: Schema.String,
+  promptTokens: Schema.Number,
+  completionTokens: Schema.Number,
+  cachedTokens: Schema.optionalWith(Schema.Number, { default: () => 0 }),
+  /** True when the API reported no usage and the counts are local estimates. */
+  estimated: Schema.Boolean,
+}) {}
@@ -151,7 +151,7 @@ export class AuthService extends Context.Tag("@app/AuthService")<
 
           if (!res.ok)
             return yield* Effect.fail(
-              new ApiError(`Failed to get bearer: ${res.status}`),
+              new ApiError(`Failed to get bearer: ${res.status}`, res.status),
             );
 
           const json = yield* Effect.tryPromise({
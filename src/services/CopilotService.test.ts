@@ -0,0 +1,153 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import * as Stream from "effect/Stream";
+import { AuthService } from "./AuthService.ts";
+import { CopilotService } from "./CopilotService.ts";
+
+type Reply = () => Response;
+
+describe("CopilotService", () => {
+  const replies: Reply[] = [];
+  let calls = 0;
+  const server = Bun.serve({
+    port: 0,
+    fetch: () => {
+      calls++;
+      return replies.shift()?.() ?? new Response("unexpected", { status: 599 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+
+  const run = <A, E>(
+    program: Effect.Effect<A, E, CopilotService>,
+    ...script: Reply[]
+  ) => {
+    calls = 0;
+    replies.splice(0, replies.length, ...script);
+    return Effect.runPromise(
+      program.pipe(
+        Effect.provide(
+          CopilotService.make({
+            baseUrl: `http://localhost:${server.port}`,
+            retry: { retries: 2, baseDelay: 1, maxDelay: 50 },
+          }).pipe(
+            Layer.provide(
+              Layer.succeed(AuthService, {
+                getBearerToken: () => Effect.succeed("token"),
+              }),
+            ),
+          ),
+        ),
+        Effect.either,
+      ),
+    );
+  };
+
+  const status =
+    (code: number, headers: Record<string, string> = {}) =>
+    () =>
+      new Response("nope", { status: code, headers });
+
+  const json = (body: unknown) => () => Response.json(body);
+
+  const sse =
+    (...events: unknown[]) =>
+    () =>
+      new Response(
+        events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("") +
+          "data: [DONE]\n\n",
+        { headers: { "Content-Type": "text/event-stream" } },
+      );
+
+  const get = Effect.flatMap(CopilotService, (copilot) =>
+    copilot.request<{ ok: boolean }>("GET", "/models"),
+  );
+
+  test("retries overloaded and rate-limited requests", async () => {
+    const result = await run(
+      get,
+      status(503),
+      status(429, { "retry-after": "0" }),
+      json({ ok: true }),
+    );
+
+    expect(result).toEqual(expect.objectContaining({ right: { ok: true } }));
+    expect(calls).toBe(3);
+  });
+
+  test("fails at once on client errors and on waits beyond the policy", async () => {
+    const badRequest = await run(get, status(400), json({ ok: true }));
+    expect(badRequest._tag).toBe("Left");
+    expect(calls).toBe(1);
+
+    const limited = await run(
+      get,
+      status(429, { "retry-after": "60" }),
+      json({ ok: true }),
+    );
+    expect(limited).toEqual(
+      expect.objectContaining({
+        left: expect.objectContaining({ status: 429, retryAfter: 60_000 }),
+      }),
+    );
+    expect(calls).toBe(1);
+  });
+
+  test("repeats a POST only when rate-limited, unless it is idempotent", async () => {
+    const post = (idempotent?: boolean) =>
+      Effect.flatMap(CopilotService, (copilot) =>
+        copilot.request<{ ok: boolean }>(
+          "POST",
+          "/chat/completions",
+          {},
+          idempotent === undefined ? {} : { idempotent },
+        ),
+      );
+
+    const overloaded = await run(post(), status(503), json({ ok: true }));
+    expect(overloaded._tag).toBe("Left");
+    expect(calls).toBe(1);
+
+    const limited = await run(
+      post(),
+      status(429, { "retry-after": "0" }),
+      json({ ok: true }),
+    );
+    expect(limited).toEqual(expect.objectContaining({ right: { ok: true } }));
+    expect(calls).toBe(2);
+
+    const idempotent = await run(post(true), status(503), json({ ok: true }));
+    expect(idempotent).toEqual(
+      expect.objectContaining({ right: { ok: true } }),
+    );
+    expect(calls).toBe(2);
+  });
+
+  test("gives up after the configured number of retries", async () => {
+    const result = await run(get, status(502), status(502), status(502));
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        left: expect.objectContaining({ status: 502 }),
+      }),
+    );
+    expect(calls).toBe(3);
+  });
+
+  test("retries a stream that fails before its first event", async () => {
+    const result = await run(
+      Effect.flatMap(CopilotService, (copilot) =>
+        Stream.runCollect(copilot.stream("/chat/completions", {})),
+      ).pipe(Effect.map((chunks) => [...chunks])),
+      status(500),
+      sse({ n: 1 }, { n: 2 }),
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ right: [{ n: 1 }, { n: 2 }] }),
+    );
+    expect(calls).toBe(2);
+  });
+});
@@ -1,22 +1,38 @@
 import { Context, Effect, Layer, Stream } from "effect";
 import { AuthService } from "./AuthService.ts";
 import { ApiError, AuthError, FsError, ParseError } from "../errors/index.ts";
+import {
+  DEFAULT_RETRY_POLICY,
+  isRateLimited,
+  isTransient,
+  retryAfter,
+  retrySchedule,
+  type RetryPolicy,
+} from "../utils/retry.ts";
 import { parseSSEStream } from "../utils/streaming.ts";
 
 const runtime =
   typeof Bun !== "undefined" ? `Bun/${Bun.version}` : `Node/${process.version}`;
 
+const COPILOT_API = "https://api.githubcopilot.com";
+
 const COPILOT_HEADERS = {
   "Editor-Version": runtime,
   "Editor-Plugin-Version": "copilot-scripts/0.1.0",
   "Copilot-Integration-Id": "vscode-chat",
 };
 
+export interface RequestOptions {
+  /** Sending the request twice is harmless; by default only GETs are. */
+  idempotent?: boolean;
+}
+
 export interface Copilot {
   readonly request: <T>(
     method: "GET" | "POST",
     path: string,
     body?: unknown,
+    options?: RequestOptions,
   ) => Effect.Effect<T, ApiError | AuthError | FsError | ParseError>;
   readonly stream: (
     path: string,
@@ -24,87 +40,127 @@ export interface Copilot {
   ) => Stream.Stream<any, ApiError | AuthError | FsError | ParseError>;
 }
 
+export interface CopilotOptions {
+  baseUrl?: string;
+  /** Overrides of the default retry policy. */
+  retry?: Partial<RetryPolicy>;
+}
+
+/** Fails with the status, body and requested wait of a non-OK response. */
+const responseError = (label: string, response: Response) =>
+  Effect.tryPromise({
+    try: () => response.text(),
+    catch: (err) => new ApiError(String(err)),
+  }).pipe(
+    Effect.flatMap((message) =>
+      Effect.fail(
+        new ApiError(
+          `${label} ${response.status}: ${message}`,
+          response.status,
+          retryAfter(response.headers),
+        ),
+      ),
+    ),
+  );
+
 export class CopilotService extends Context.Tag("@app/CopilotService")<
   CopilotService,
   Copilot
 >() {
-  static readonly layer = Layer.effect(
-    CopilotService,
-    Effect.gen(function* () {
-      const auth = yield* AuthService;
-
-      const getHeaders = (
-        token: string,
-        extra: Record<string, string> = {},
-      ) => ({
-        Authorization: `Bearer ${token}`,
-        ...COPILOT_HEADERS,
-        ...extra,
-      });
-
-      const request = <T>(method: "GET" | "POST", path: string, body?: unknown) =>
-        Effect.gen(function* () {
-          const token = yield* auth.getBearerToken();
-          const response = yield* Effect.tryPromise({
-            try: () =>
-              fetch(`https://api.githubcopilot.com${path}`, {
-                method,
-                headers: getHeaders(token, {
-                  "Content-Type": "application/json",
-                }),
-                body: body ? JSON.stringify(body) : undefined,
-              } as RequestInit),
-            catch: (err) => new ApiError(String(err)),
-          });
+  /**
+   * Calls that fail transiently are retried with backoff; requests that are
+   * not idempotent only when rate-limited. A stream is only retried until its
+   * first event arrives, so no output is ever repeated.
+   */
+  static make(options: CopilotOptions = {}) {
+    const baseUrl = options.baseUrl ?? COPILOT_API;
+    const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
 
-          if (!response.ok) {
-            const message = yield* Effect.tryPromise({
-              try: () => response.text(),
-              catch: (err) => new ApiError(String(err)),
-            });
-            return yield* Effect.fail(
-              new ApiError(`API error ${response.status}: ${message}`),
-            );
-          }
+    return Layer.effect(
+      CopilotService,
+      Effect.gen(function* () {
+        const auth = yield* AuthService;
 
-          return (yield* Effect.tryPromise({
-            try: () => response.json() as Promise<T>,
-            catch: (err) => new ParseError(String(err)),
-          })) as T;
+        const getHeaders = (
+          token: string,
+          extra: Record<string, string> = {},
+        ) => ({
+          Authorization: `Bearer ${token}`,
+          ...COPILOT_HEADERS,
+          ...extra,
         });
 
-      const stream: Copilot["stream"] = (path, body) =>
-        Stream.unwrap(
+        const send = (method: "GET" | "POST", path: string, body?: unknown) =>
           Effect.gen(function* () {
             const token = yield* auth.getBearerToken();
-            const response = yield* Effect.tryPromise({
+            return yield* Effect.tryPromise({
               try: () =>
-                fetch(`https://api.githubcopilot.com${path}`, {
-                  method: "POST",
+                fetch(`${baseUrl}${path}`, {
+                  method,
                   headers: getHeaders(token, {
                     "Content-Type": "application/json",
                   }),
-                  body: JSON.stringify(body),
+                  body: body ? JSON.stringify(body) : undefined,
                 } as RequestInit),
               catch: (err) => new ApiError(String(err)),
             });
+          });
+
+        const request = <T>(
+          method: "GET" | "POST",
+          path: string,
+          body?: unknown,
+          requestOptions: RequestOptions = {},
+        ) => {
+          // A failed call that may have reached the API is only repeated when
+          // that is harmless; one turned away by a rate limit always is.
+          const retryable =
+            (requestOptions.idempotent ?? method === "GET")
+              ? isTransient
+              : isRateLimited;
+          return Effect.gen(function* () {
+            const response = yield* send(method, path, body);
             if (!response.ok) {
-              const message = yield* Effect.tryPromise({
-                try: () => response.text(),
-                catch: (err) => new ApiError(String(err)),
-              });
-              return Stream.fail(
-                new ApiError(`Stream error ${response.status}: ${message}`),
-              );
+              return yield* responseError("API error", response);
             }
-            return Stream.mapError(
-              parseSSEStream(response),
-              (err) => err as AuthError | ApiError | FsError | ParseError,
+
+            return (yield* Effect.tryPromise({
+              try: () => response.json() as Promise<T>,
+              catch: (err) => new ParseError(String(err)),
+            })) as T;
+          }).pipe(Effect.retry(retrySchedule(policy, retryable)));
+        };
+
+        const stream: Copilot["stream"] = (path, body) =>
+          Stream.suspend(() => {
+            let started = false;
+            const attempt = Stream.unwrap(
+              Effect.gen(function* () {
+                const response = yield* send("POST", path, body);
+                if (!response.ok) {
+                  return yield* responseError("Stream error", response);
+                }
+                return parseSSEStream(response);
+              }),
             );
-          }),
-        );
+            // A body that breaks off before its first event is as safe to
+            // repeat as a request that got no response.
+            const retryable = (err: unknown) =>
+              !started && (isTransient(err) || err instanceof ParseError);
+            return attempt.pipe(
+              Stream.tap(() =>
+                Effect.sync(() => {
+                  started = true;
+                }),
+              ),
+              Stream.retry(retrySchedule(policy, retryable)),
+            );
+          });
 
-      return CopilotService.of({ request, stream });
-    }),
-  );
-}
\ No newline at end of file
+        return CopilotService.of({ request, stream });
+      }),
+    );
+  }
+
+  static readonly layer = CopilotService.make();
+}
@@ -0,0 +1,68 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import {
+  chmod,
+  lstat,
+  mkdtemp,
+  readFile,
+  readdir,
+  readlink,
+  rm,
+  stat,
+  symlink,
+  writeFile,
+} from "fs/promises";
+import os from "os";
+import path from "path";
+import { FileSystemService } from "./FileSystemService.ts";
+
+describe("FileSystemService", () => {
+  const dirs: string[] = [];
+
+  afterAll(async () => {
+    for (const dir of dirs) await rm(dir, { recursive: true, force: true });
+  });
+
+  const tempDir = async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "fs-service-"));
+    dirs.push(dir);
+    return dir;
+  };
+
+  const writeAtomic = (filePath: string, contents: string) =>
+    Effect.runPromise(
+      Effect.flatMap(FileSystemService, (fs) =>
+        fs.writeFileAtomic(filePath, contents),
+      ).pipe(Effect.provide(FileSystemService.layer)),
+    );
+
+  test("keeps the permissions of the file it replaces", async () => {
+    const dir = await tempDir();
+    const script = path.join(dir, "run.sh");
+    await writeFile(script, "#!/bin/sh\necho old\n");
+    await chmod(script, 0o755);
+
+    await writeAtomic(script, "#!/bin/sh\necho new\n");
+
+    expect(await readFile(script, "utf8")).toBe("#!/bin/sh\necho new\n");
+    expect((await stat(script)).mode & 0o777).toBe(0o755);
+    expect(await readdir(dir)).toEqual(["run.sh"]);
+  });
+
+  test("writes through a symlink instead of replacing it", async () => {
+    const dir = await tempDir();
+    const real = path.join(dir, "real");
+    await Bun.write(path.join(real, "config.json"), "{}");
+    const link = path.join(dir, "config.json");
+    await symlink(path.join(real, "config.json"), link);
+
+    await writeAtomic(link, '{"a":1}');
+
+    expect((await lstat(link)).isSymbolicLink()).toBe(true);
+    expect(await readlink(link)).toBe(path.join(real, "config.json"));
+    expect(await readFile(path.join(real, "config.json"), "utf8")).toBe(
+      '{"a":1}',
+    );
+    expect(await readdir(real)).toEqual(["config.json"]);
+  });
+});
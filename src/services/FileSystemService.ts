@@ -1,5 +1,17 @@
 import { Context, Effect, Layer } from "effect";
-import { access, appendFile, mkdir, readFile, writeFile } from "fs/promises";
+import {
+  access,
+  appendFile,
+  chmod,
+  mkdir,
+  readFile,
+  readdir,
+  realpath,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
 import { constants } from "fs";
 import path from "path";
 import { FsError } from "../errors/index.ts";
@@ -13,12 +25,24 @@ export interface FileSystem {
     filePath: string,
     contents: string,
   ) => Effect.Effect<void, FsError>;
+  /**
+   * Writes to a temp file in the same directory, then renames it over
+   * `filePath`. A symlink is followed so the link survives and its target is
+   * replaced, and an existing file keeps its permissions.
+   */
+  readonly writeFileAtomic: (
+    filePath: string,
+    contents: string,
+  ) => Effect.Effect<void, FsError>;
   readonly appendFile: (
     filePath: string,
     contents: string,
   ) => Effect.Effect<void, FsError>;
   readonly ensureDir: (dirPath: string) => Effect.Effect<void, FsError>;
+  readonly readDir: (dirPath: string) => Effect.Effect<string[], FsError>;
   readonly exists: (filePath: string) => Effect.Effect<boolean>;
+  readonly remove: (filePath: string) => Effect.Effect<void, FsError>;
+  readonly rename: (from: string, to: string) => Effect.Effect<void, FsError>;
   readonly join: (...segments: string[]) => string;
 }
 
@@ -41,6 +65,30 @@ export class FileSystemService extends Context.Tag("@app/FileSystemService")<
           catch: (err) => new FsError(String(err)),
         }),
 
+      writeFileAtomic: (filePath, contents) =>
+        Effect.tryPromise({
+          try: async () => {
+            const target = await realpath(filePath).catch(() => filePath);
+            const mode = await stat(target).then(
+              (stats) => stats.mode & 0o7777,
+              () => undefined,
+            );
+            const tmp = path.join(
+              path.dirname(target),
+              `.${path.basename(target)}.${process.pid}.${Date.now()}.tmp`,
+            );
+            try {
+              await writeFile(tmp, contents);
+              if (mode !== undefined) await chmod(tmp, mode);
+              await rename(tmp, target);
+            } catch (err) {
+              await rm(tmp, { force: true });
+              throw err;
+            }
+          },
+          catch: (err) => new FsError(String(err)),
+        }),
+
       appendFile: (filePath, contents) =>
         Effect.tryPromise({
           try: () => appendFile(filePath, contents),
@@ -53,12 +101,30 @@ export class FileSystemService extends Context.Tag("@app/FileSystemService")<
           catch: (err) => new FsError(String(err)),
         }),
 
+      readDir: (dirPath) =>
+        Effect.tryPromise({
+          try: () => readdir(dirPath),
+          catch: (err) => new FsError(String(err)),
+        }),
+
       exists: (filePath) =>
         Effect.tryPromise(() => access(filePath, constants.F_OK)).pipe(
           Effect.as(true),
           Effect.catchAll(() => Effect.succeed(false)),
         ),
 
+      remove: (filePath) =>
+        Effect.tryPromise({
+          try: () => rm(filePath, { force: true }),
+          catch: (err) => new FsError(String(err)),
+        }),
+
+      rename: (from, to) =>
+        Effect.tryPromise({
+          try: () => rename(from, to),
+          catch: (err) => new FsError(String(err)),
+        }),
+
       join: (...segments: string[]) => path.join(...segments),
     }),
   );
@@ -0,0 +1,120 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { FileSystemService } from "./FileSystemService.ts";
+import { LspService } from "./LspService.ts";
+
+const STUB_SERVER = path.join(
+  import.meta.dir,
+  "fixtures",
+  "stub-lsp-server.ts",
+);
+
+describe("LspService", () => {
+  const originalHome = process.env.HOME;
+  let dir = "";
+
+  afterAll(async () => {
+    process.env.HOME = originalHome;
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  test("talks to a language server over stdio", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "lsp-"));
+    process.env.HOME = dir;
+    const file = path.join(dir, "greeter.stub");
+    await writeFile(file, "class Greeter {\n  greet() {}\n}\n// TODO\n");
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const lsp = yield* LspService;
+        const client = yield* lsp.start(
+          {
+            languageId: "stub",
+            command: [process.execPath, STUB_SERVER],
+            extensions: [".stub"],
+          },
+          dir,
+        );
+        const position = { line: 1, character: 3 };
+        return {
+          definition: yield* client.definition(file, position),
+          references: yield* client.references(file, position),
+          symbols: yield* client.documentSymbols(file),
+          hover: yield* client.hover(file, position),
+          diagnostics: yield* client.diagnostics(file),
+          edited: yield* client
+            .openDocument(file, "// TODO\n// TODO\n")
+            .pipe(Effect.zipRight(client.diagnostics(file))),
+        };
+      }).pipe(
+        Effect.scoped,
+        Effect.provide(
+          LspService.layer.pipe(Layer.provide(FileSystemService.layer)),
+        ),
+      ),
+    );
+
+    expect(result.definition).toEqual([
+      {
+        file,
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 0, character: 5 },
+        },
+      },
+    ]);
+    expect(result.references.map((ref) => ref.range.start.line)).toEqual([
+      1, 2,
+    ]);
+    expect(result.symbols[0].name).toBe("Greeter");
+    expect(result.symbols[0].children.map((child) => child.name)).toEqual([
+      "greet",
+    ]);
+    expect(result.hover).toBe("line 1");
+    expect(result.diagnostics).toEqual([
+      {
+        range: {
+          start: { line: 3, character: 3 },
+          end: { line: 3, character: 7 },
+        },
+        severity: 2,
+        source: "stub",
+        message: "unfinished work",
+      },
+    ]);
+    expect(result.edited.map((d) => d.range.start.line)).toEqual([0, 1]);
+  });
+
+  test("fails requests when the server sends garbage and exits", async () => {
+    const crashing = [
+      'process.stdout.write("Content-Length: 5\\r\\n\\r\\n{bad}");',
+      "setTimeout(() => process.exit(3), 50);",
+    ].join("\n");
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const lsp = yield* LspService;
+        return yield* lsp.start(
+          {
+            languageId: "stub",
+            command: [process.execPath, "-e", crashing],
+            extensions: [".stub"],
+          },
+          dir,
+        );
+      }).pipe(
+        Effect.scoped,
+        Effect.flip,
+        Effect.provide(
+          LspService.layer.pipe(Layer.provide(FileSystemService.layer)),
+        ),
+      ),
+    );
+
+    expect(result.message).toContain("exited with code 3");
+  });
+});
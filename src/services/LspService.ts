@@ -0,0 +1,467 @@
+import { Context, Duration, Effect, Layer, Schema, Scope } from "effect";
+import { spawn } from "child_process";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { FileSystemService } from "./FileSystemService.ts";
+import type { TextRange } from "../core/edit-report.ts";
+import {
+  LanguageServerConfig,
+  LanguageServerConfigs,
+} from "../schemas/index.ts";
+import { LspError } from "../errors/index.ts";
+
+export interface Location {
+  file: string;
+  range: TextRange;
+}
+
+export interface DocumentSymbol {
+  name: string;
+  /** LSP SymbolKind (12 = function, 5 = class, 13 = variable, ...). */
+  kind: number;
+  range: TextRange;
+  selectionRange: TextRange;
+  children: DocumentSymbol[];
+}
+
+export interface Diagnostic {
+  range: TextRange;
+  /** 1 = error, 2 = warning, 3 = information, 4 = hint. */
+  severity?: number;
+  message: string;
+  source?: string;
+}
+
+export interface LspClient {
+  readonly config: LanguageServerConfig;
+  /** Opens `file`, or sends its new text if it is already open. */
+  readonly openDocument: (
+    file: string,
+    text?: string,
+  ) => Effect.Effect<void, LspError>;
+  readonly definition: (
+    file: string,
+    position: TextRange["start"],
+  ) => Effect.Effect<Location[], LspError>;
+  readonly references: (
+    file: string,
+    position: TextRange["start"],
+  ) => Effect.Effect<Location[], LspError>;
+  readonly documentSymbols: (
+    file: string,
+  ) => Effect.Effect<DocumentSymbol[], LspError>;
+  /** Hover text as plain text/markdown, or null when there is none. */
+  readonly hover: (
+    file: string,
+    position: TextRange["start"],
+  ) => Effect.Effect<string | null, LspError>;
+  /** Diagnostics the server published for `file`, waiting briefly for the first report. */
+  readonly diagnostics: (file: string) => Effect.Effect<Diagnostic[], LspError>;
+}
+
+export interface Lsp {
+  /** The configured server for `file` whose command is installed, if any. */
+  readonly serverFor: (file: string) => LanguageServerConfig | undefined;
+  /** Starts and initializes a server; it is shut down when the scope closes. */
+  readonly start: (
+    config: LanguageServerConfig,
+    root: string,
+  ) => Effect.Effect<LspClient, LspError, Scope.Scope>;
+  /** Like `start` for the server of `file`, or undefined when none is available or it fails to start. */
+  readonly connect: (
+    file: string,
+    root: string,
+  ) => Effect.Effect<LspClient | undefined, never, Scope.Scope>;
+}
+
+export const DEFAULT_LANGUAGE_SERVERS: LanguageServerConfig[] = [
+  {
+    languageId: "typescript",
+    command: ["typescript-language-server", "--stdio"],
+    extensions: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+  },
+  {
+    languageId: "python",
+    command: ["pyright-langserver", "--stdio"],
+    extensions: [".py", ".pyi"],
+  },
+  { languageId: "go", command: ["gopls"], extensions: [".go"] },
+  { languageId: "rust", command: ["rust-analyzer"], extensions: [".rs"] },
+  {
+    languageId: "cpp",
+    command: ["clangd"],
+    extensions: [".c", ".h", ".cc", ".cpp", ".cxx", ".hpp", ".hh", ".hxx"],
+  },
+];
+
+const CONFIG_FILE = ".config/copilot-scripts/lsp.json";
+const REQUEST_TIMEOUT = Duration.seconds(15);
+const DIAGNOSTICS_WAIT = Duration.seconds(3);
+const decodeConfigs = Schema.decodeUnknown(
+  Schema.parseJson(LanguageServerConfigs),
+);
+
+const toUri = (file: string) => pathToFileURL(path.resolve(file)).href;
+const toRange = (range: TextRange): TextRange => ({
+  start: { line: range.start.line, character: range.start.character },
+  end: { line: range.end.line, character: range.end.character },
+});
+
+type RpcMessage = {
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { message: string };
+};
+
+/** Content-Length framed JSON-RPC over a child process's stdio. */
+function createConnection(
+  command: string[],
+  cwd: string,
+  onNotification: (method: string, params: any) => void,
+) {
+  const child = spawn(command[0], command.slice(1), {
+    cwd,
+    stdio: ["pipe", "pipe", "ignore"],
+  });
+  const pending = new Map<
+    number,
+    { resolve: (value: any) => void; reject: (err: Error) => void }
+  >();
+  let nextId = 1;
+  let buffer = Buffer.alloc(0);
+  // Set once the server is gone; writing to it then would raise EPIPE.
+  let closed = false;
+
+  const failAll = (err: Error) => {
+    closed = true;
+    for (const waiter of pending.values()) waiter.reject(err);
+    pending.clear();
+  };
+
+  const send = (message: RpcMessage) => {
+    if (closed) return;
+    const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+    child.stdin.write(
+      `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`,
+    );
+  };
+
+  const dispatch = (message: RpcMessage) => {
+    if (message.method && message.id !== undefined) {
+      // Server-to-client requests (configuration, progress, registration)
+      // get an empty answer so the server never blocks on us.
+      send({ id: message.id, result: null });
+      return;
+    }
+    if (message.method) {
+      onNotification(message.method, message.params);
+      return;
+    }
+    const waiter = pending.get(Number(message.id));
+    if (!waiter) return;
+    pending.delete(Number(message.id));
+    if (message.error) waiter.reject(new Error(message.error.message));
+    else waiter.resolve(message.result);
+  };
+
+  child.stdout.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (true) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) return;
+      const length = Number(
+        buffer
+          .subarray(0, headerEnd)
+          .toString()
+          .match(/Content-Length: (\d+)/i)?.[1],
+      );
+      const start = headerEnd + 4;
+      if (buffer.length < start + length) return;
+      const body = buffer.subarray(start, start + length).toString();
+      buffer = buffer.subarray(start + length);
+      try {
+        dispatch(JSON.parse(body));
+      } catch {
+        // A malformed frame is dropped; its request times out.
+      }
+    }
+  });
+
+  child.stdin.on("error", failAll);
+  child.on("error", failAll);
+  child.on("exit", (code) =>
+    failAll(new Error(`${command[0]} exited with code ${code}`)),
+  );
+
+  return {
+    child,
+    request: (method: string, params: unknown) =>
+      new Promise<any>((resolve, reject) => {
+        if (closed || child.exitCode !== null) {
+          reject(new Error(`${command[0]} is not running`));
+          return;
+        }
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        send({ id, method, params });
+      }),
+    notify: (method: string, params: unknown) => send({ method, params }),
+  };
+}
+
+function toLocations(result: any): Location[] {
+  const items = result ? (Array.isArray(result) ? result : [result]) : [];
+  return items.map((item: any) => ({
+    file: fileURLToPath(item.targetUri ?? item.uri),
+    range: toRange(item.targetSelectionRange ?? item.range),
+  }));
+}
+
+function toSymbols(result: any[] | null): DocumentSymbol[] {
+  return (result ?? []).map((item) =>
+    item.location
+      ? {
+          name: item.name,
+          kind: item.kind,
+          range: toRange(item.location.range),
+          selectionRange: toRange(item.location.range),
+          children: [],
+        }
+      : {
+          name: item.name,
+          kind: item.kind,
+          range: toRange(item.range),
+          selectionRange: toRange(item.selectionRange),
+          children: toSymbols(item.children ?? []),
+        },
+  );
+}
+
+function hoverText(contents: any): string | null {
+  if (!contents) return null;
+  if (typeof contents === "string") return contents || null;
+  if (Array.isArray(contents)) {
+    const parts = contents.map(hoverText).filter((part) => part !== null);
+    return parts.length > 0 ? parts.join("\n") : null;
+  }
+  return contents.value || null;
+}
+
+export class LspService extends Context.Tag("@app/LspService")<
+  LspService,
+  Lsp
+>() {
+  static readonly layer = Layer.effect(
+    LspService,
+    Effect.gen(function* () {
+      const fs = yield* FileSystemService;
+      const configPath = fs.join(process.env.HOME || "", CONFIG_FILE);
+
+      // User entries take precedence over the defaults for the same extensions.
+      const userServers = (yield* fs.exists(configPath))
+        ? yield* fs.readFile(configPath).pipe(
+            Effect.flatMap(decodeConfigs),
+            Effect.catchAll((err) =>
+              Effect.sync(() => {
+                console.warn(`Ignoring ${configPath}: ${String(err)}`);
+                return [];
+              }),
+            ),
+          )
+        : [];
+      const servers = [...userServers, ...DEFAULT_LANGUAGE_SERVERS];
+
+      const serverFor = (file: string) => {
+        const ext = path.extname(file).toLowerCase();
+        return servers.find(
+          (server) =>
+            server.extensions.includes(ext) &&
+            Bun.which(server.command[0]) !== null,
+        );
+      };
+
+      const start = (config: LanguageServerConfig, root: string) =>
+        Effect.gen(function* () {
+          const diagnostics = new Map<string, Diagnostic[]>();
+          const waiters = new Map<string, (() => void)[]>();
+          const versions = new Map<string, number>();
+
+          const connection = yield* Effect.acquireRelease(
+            Effect.try({
+              try: () =>
+                createConnection(
+                  [...config.command],
+                  root,
+                  (method, params) => {
+                    if (method !== "textDocument/publishDiagnostics") return;
+                    diagnostics.set(
+                      params.uri,
+                      params.diagnostics.map((d: any) => ({
+                        range: toRange(d.range),
+                        message: d.message,
+                        ...(d.severity !== undefined && {
+                          severity: d.severity,
+                        }),
+                        ...(d.source !== undefined && { source: d.source }),
+                      })),
+                    );
+                    for (const wake of waiters.get(params.uri) ?? []) wake();
+                    waiters.delete(params.uri);
+                  },
+                ),
+              catch: (err) =>
+                new LspError(`Failed to start ${config.command[0]}: ${err}`),
+            }),
+            (conn) =>
+              Effect.promise(() =>
+                conn.request("shutdown", null).catch(() => undefined),
+              ).pipe(
+                Effect.timeout(Duration.seconds(2)),
+                Effect.ignore,
+                Effect.andThen(() => {
+                  conn.notify("exit", null);
+                  conn.child.kill();
+                }),
+              ),
+          );
+
+          const request = (method: string, params: unknown) =>
+            Effect.tryPromise({
+              try: () => connection.request(method, params),
+              catch: (err) =>
+                new LspError(`${config.command[0]} ${method}: ${err}`),
+            }).pipe(
+              Effect.timeoutFail({
+                duration: REQUEST_TIMEOUT,
+                onTimeout: () =>
+                  new LspError(`${config.command[0]} ${method} timed out`),
+              }),
+            );
+
+          const rootUri = toUri(root);
+          yield* request("initialize", {
+            processId: process.pid,
+            rootUri,
+            workspaceFolders: [{ uri: rootUri, name: path.basename(root) }],
+            capabilities: {
+              textDocument: {
+                definition: { linkSupport: true },
+                references: {},
+                documentSymbol: { hierarchicalDocumentSymbolSupport: true },
+                hover: { contentFormat: ["markdown", "plaintext"] },
+                publishDiagnostics: {},
+              },
+            },
+          });
+          connection.notify("initialized", {});
+
+          const openDocument = (file: string, text?: string) =>
+            Effect.gen(function* () {
+              const uri = toUri(file);
+              const version = versions.get(uri);
+              if (version !== undefined && text === undefined) return;
+              const contents =
+                text ??
+                (yield* fs
+                  .readFile(file)
+                  .pipe(Effect.mapError((err) => new LspError(err.message))));
+              diagnostics.delete(uri);
+              versions.set(uri, (version ?? 0) + 1);
+              if (version === undefined) {
+                connection.notify("textDocument/didOpen", {
+                  textDocument: {
+                    uri,
+                    languageId: config.languageId,
+                    version: 1,
+                    text: contents,
+                  },
+                });
+              } else {
+                connection.notify("textDocument/didChange", {
+                  textDocument: { uri, version: version + 1 },
+                  contentChanges: [{ text: contents }],
+                });
+              }
+            });
+
+          const positionRequest = (
+            method: string,
+            file: string,
+            position: TextRange["start"],
+            extra: object = {},
+          ) =>
+            openDocument(file).pipe(
+              Effect.zipRight(
+                request(method, {
+                  textDocument: { uri: toUri(file) },
+                  position,
+                  ...extra,
+                }),
+              ),
+            );
+
+          const waitForDiagnostics = (uri: string) =>
+            Effect.async<void>((resume) => {
+              const wake = () => resume(Effect.void);
+              waiters.set(uri, [...(waiters.get(uri) ?? []), wake]);
+              return Effect.sync(() =>
+                waiters.set(
+                  uri,
+                  (waiters.get(uri) ?? []).filter((w) => w !== wake),
+                ),
+              );
+            }).pipe(Effect.timeout(DIAGNOSTICS_WAIT), Effect.ignore);
+
+          return {
+            config,
+            openDocument,
+            definition: (file, position) =>
+              positionRequest("textDocument/definition", file, position).pipe(
+                Effect.map(toLocations),
+              ),
+            references: (file, position) =>
+              positionRequest("textDocument/references", file, position, {
+                context: { includeDeclaration: false },
+              }).pipe(Effect.map(toLocations)),
+            documentSymbols: (file) =>
+              openDocument(file).pipe(
+                Effect.zipRight(
+                  request("textDocument/documentSymbol", {
+                    textDocument: { uri: toUri(file) },
+                  }),
+                ),
+                Effect.map(toSymbols),
+              ),
+            hover: (file, position) =>
+              positionRequest("textDocument/hover", file, position).pipe(
+                Effect.map((result) => hoverText(result?.contents)),
+              ),
+            diagnostics: (file) =>
+              Effect.gen(function* () {
+                const uri = toUri(file);
+                yield* openDocument(file);
+                if (!diagnostics.has(uri)) yield* waitForDiagnostics(uri);
+                return diagnostics.get(uri) ?? [];
+              }),
+          } satisfies LspClient;
+        });
+
+      const connect = (file: string, root: string) => {
+        const config = serverFor(file);
+        if (!config) return Effect.succeed(undefined);
+        return start(config, root).pipe(
+          Effect.catchAll((err) =>
+            Effect.sync(() => {
+              console.warn(`Language server unavailable: ${err.message}`);
+              return undefined;
+            }),
+          ),
+        );
+      };
+
+      return LspService.of({ serverFor, start, connect });
+    }),
+  );
+}
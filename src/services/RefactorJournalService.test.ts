@@ -0,0 +1,72 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { FileSystemService } from "./FileSystemService.ts";
+import { RefactorJournalService } from "./RefactorJournalService.ts";
+
+describe("RefactorJournalService", () => {
+  const originalHome = process.env.HOME;
+  let home = "";
+
+  afterAll(async () => {
+    process.env.HOME = originalHome;
+    if (home) await rm(home, { recursive: true, force: true });
+  });
+
+  const run = <A, E>(program: Effect.Effect<A, E, RefactorJournalService>) =>
+    Effect.runPromise(
+      program.pipe(
+        Effect.provide(
+          RefactorJournalService.layer.pipe(
+            Layer.provide(FileSystemService.layer),
+          ),
+        ),
+      ),
+    );
+
+  test("records runs and picks the latest one of a project not undone yet", async () => {
+    home = await mkdtemp(path.join(os.tmpdir(), "journal-"));
+    process.env.HOME = home;
+
+    const result = await run(
+      Effect.gen(function* () {
+        const journal = yield* RefactorJournalService;
+        const entry = {
+          cwd: "/work",
+          model: "gpt-4o",
+          prompt: "rename foo",
+          response: '<patch block="0">bar</patch>',
+          files: [
+            { file: "/work/a.ts", before: "foo", after: "bar" },
+            { file: "/work/new.ts", before: null, after: "x" },
+          ],
+        };
+        const first = yield* journal.record(entry);
+        yield* Effect.sleep("2 millis");
+        const second = yield* journal.record({ ...entry, prompt: "again" });
+        yield* Effect.sleep("2 millis");
+        const elsewhere = yield* journal.record({ ...entry, cwd: "/other" });
+
+        const latest = yield* journal.latest("/work");
+        yield* journal.markUndone(second.id);
+        const afterUndo = yield* journal.latest("/work");
+        const reloaded = yield* journal.load(second.id);
+        const other = yield* journal.latest("/other");
+        return { first, second, elsewhere, latest, afterUndo, reloaded, other };
+      }),
+    );
+
+    expect(result.latest?.id).toBe(result.second.id);
+    expect(result.afterUndo?.id).toBe(result.first.id);
+    expect(result.afterUndo?.files[1]).toEqual({
+      file: "/work/new.ts",
+      before: null,
+      after: "x",
+    });
+    expect(result.reloaded.undoneAt).toBeNumber();
+    expect(result.other?.id).toBe(result.elsewhere.id);
+  });
+});
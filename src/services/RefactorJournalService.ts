@@ -0,0 +1,94 @@
+import { Context, Effect, Layer, Schema } from "effect";
+import path from "path";
+import { FileSystemService } from "./FileSystemService.ts";
+import { RefactorRun } from "../schemas/index.ts";
+import { FsError, ParseError } from "../errors/index.ts";
+
+export type NewRefactorRun = Omit<RefactorRun, "id" | "createdAt" | "undoneAt">;
+
+export interface RefactorJournal {
+  readonly record: (run: NewRefactorRun) => Effect.Effect<RefactorRun, FsError>;
+  readonly load: (
+    id: string,
+  ) => Effect.Effect<RefactorRun, FsError | ParseError>;
+  /** The most recent run in project `cwd` that has not been undone yet. */
+  readonly latest: (
+    cwd: string,
+  ) => Effect.Effect<
+    RefactorRun | undefined,
+    FsError | ParseError
+  >;
+  readonly markUndone: (
+    id: string,
+  ) => Effect.Effect<void, FsError | ParseError>;
+}
+
+const JOURNAL_DIR = ".copilot-scripts/refactor_history";
+const decodeRun = Schema.decodeUnknown(Schema.parseJson(RefactorRun));
+
+/**
+ * Keeps one JSON file per refactor run with the pre-image and result of every
+ * file it touched, so the run can be undone later.
+ */
+export class RefactorJournalService extends Context.Tag(
+  "@app/RefactorJournalService",
+)<RefactorJournalService, RefactorJournal>() {
+  static readonly layer = Layer.effect(
+    RefactorJournalService,
+    Effect.gen(function* () {
+      const fs = yield* FileSystemService;
+      const dir = fs.join(process.env.HOME || "", JOURNAL_DIR);
+      const fileFor = (id: string) => path.join(dir, `${id}.json`);
+
+      const save = (run: RefactorRun) =>
+        fs.writeFileAtomic(fileFor(run.id), JSON.stringify(run, null, 2));
+
+      const record = (input: NewRefactorRun) =>
+        Effect.gen(function* () {
+          yield* fs.ensureDir(dir);
+          const createdAt = Date.now();
+          const run: RefactorRun = {
+            ...input,
+            id: String(createdAt),
+            createdAt,
+          };
+          yield* save(run);
+          return run;
+        });
+
+      const load = (id: string) =>
+        fs.readFile(fileFor(id)).pipe(
+          Effect.flatMap((text) =>
+            decodeRun(text).pipe(
+              Effect.mapError(
+                (e) => new ParseError(`Invalid refactor run ${id}: ${String(e)}`),
+              ),
+            ),
+          ),
+        );
+
+      const latest = (cwd: string) =>
+        Effect.gen(function* () {
+          if (!(yield* fs.exists(dir))) return undefined;
+          const ids = (yield* fs.readDir(dir))
+            .filter((name) => name.endsWith(".json"))
+            .map((name) => name.replace(/\.json$/, ""))
+            .sort((a, b) => Number(b) - Number(a));
+          for (const id of ids) {
+            const run = yield* load(id);
+            if (run.cwd === cwd && run.undoneAt === undefined) return run;
+          }
+          return undefined;
+        });
+
+      const markUndone = (id: string) =>
+        load(id).pipe(
+          Effect.flatMap((run) =>
+            save({ ...run, undoneAt: Date.now() }),
+          ),
+        );
+
+      return RefactorJournalService.of({ record, load, latest, markUndone });
+    }),
+  );
+}
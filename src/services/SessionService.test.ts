@@ -0,0 +1,70 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { FileSystemService } from "./FileSystemService.ts";
+import { SessionService } from "./SessionService.ts";
+
+describe("SessionService", () => {
+  const originalHome = process.env.HOME;
+  let home = "";
+
+  afterAll(async () => {
+    process.env.HOME = originalHome;
+    if (home) await rm(home, { recursive: true, force: true });
+  });
+
+  const run = <A, E>(program: Effect.Effect<A, E, SessionService>) =>
+    Effect.runPromise(
+      program.pipe(
+        Effect.provide(
+          SessionService.layer.pipe(Layer.provide(FileSystemService.layer)),
+        ),
+      ),
+    );
+
+  test("round-trips messages, model switches and listing", async () => {
+    home = await mkdtemp(path.join(os.tmpdir(), "sessions-"));
+    process.env.HOME = home;
+
+    const result = await run(
+      Effect.gen(function* () {
+        const sessions = yield* SessionService;
+        const meta = yield* sessions.create("gpt-4o", "/work");
+        yield* sessions.appendMessages(meta.id, [
+          { role: "user", content: "list files" },
+          {
+            role: "assistant",
+            content: "",
+            tool_calls: [{ id: "c1", name: "run_shell", arguments: "{}" }],
+          },
+          { role: "tool", tool_call_id: "c1", content: "a.ts" },
+        ]);
+        yield* sessions.recordModel(meta.id, "claude-3.5");
+        const loaded = yield* sessions.load(meta.id);
+        const listed = yield* sessions.list();
+        return { meta, loaded, listed };
+      }),
+    );
+
+    expect(result.loaded.meta.model).toBe("claude-3.5");
+    expect(result.loaded.meta.cwd).toBe("/work");
+    expect(result.loaded.messages).toEqual([
+      { role: "user", content: "list files" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ id: "c1", name: "run_shell", arguments: "{}" }],
+      },
+      { role: "tool", tool_call_id: "c1", content: "a.ts" },
+    ]);
+    expect(result.listed).toHaveLength(1);
+    expect(result.listed[0]).toMatchObject({
+      id: result.meta.id,
+      messageCount: 3,
+      title: "list files",
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { Context, Effect, Layer, Schema } from "effect";
+import path from "path";
+import { FileSystemService } from "./FileSystemService.ts";
+import type { ChatMessage } from "../api/chat.ts";
+import { SessionEntry } from "../schemas/index.ts";
+import { FsError, ParseError } from "../errors/index.ts";
+
+export interface SessionMeta {
+  id: string;
+  model: string;
+  cwd: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Session {
+  meta: SessionMeta;
+  messages: ChatMessage[];
+}
+
+export interface SessionSummary extends SessionMeta {
+  messageCount: number;
+  title: string;
+}
+
+export interface Sessions {
+  readonly create: (
+    model: string,
+    cwd: string,
+  ) => Effect.Effect<SessionMeta, FsError>;
+  readonly appendMessages: (
+    id: string,
+    messages: ChatMessage[],
+  ) => Effect.Effect<void, FsError>;
+  readonly recordModel: (
+    id: string,
+    model: string,
+  ) => Effect.Effect<void, FsError>;
+  readonly load: (id: string) => Effect.Effect<Session, FsError | ParseError>;
+  readonly list: () => Effect.Effect<SessionSummary[], FsError | ParseError>;
+}
+
+const SESSION_DIR = ".copilot-scripts/chatsh_sessions";
+const decodeEntry = Schema.decodeUnknown(Schema.parseJson(SessionEntry));
+
+export class SessionService extends Context.Tag("@app/SessionService")<
+  SessionService,
+  Sessions
+>() {
+  static readonly layer = Layer.effect(
+    SessionService,
+    Effect.gen(function* () {
+      const fs = yield* FileSystemService;
+      const dir = fs.join(process.env.HOME || "", SESSION_DIR);
+      const fileFor = (id: string) => path.join(dir, `${id}.jsonl`);
+
+      const writeEntries = (id: string, entries: unknown[]) =>
+        fs.appendFile(
+          fileFor(id),
+          entries.map((entry) => JSON.stringify(entry) + "\n").join(""),
+        );
+
+      const create = (model: string, cwd: string) =>
+        Effect.gen(function* () {
+          yield* fs.ensureDir(dir);
+          const now = Date.now();
+          const meta: SessionMeta = {
+            id: String(now),
+            model,
+            cwd,
+            createdAt: now,
+            updatedAt: now,
+          };
+          yield* fs.writeFile(
+            fileFor(meta.id),
+            JSON.stringify({
+              type: "session",
+              id: meta.id,
+              model,
+              cwd,
+              createdAt: now,
+            }) + "\n",
+          );
+          return meta;
+        });
+
+      const appendMessages = (id: string, messages: ChatMessage[]) => {
+        const timestamp = Date.now();
+        return writeEntries(
+          id,
+          messages.map((message) => ({ type: "message", timestamp, message })),
+        );
+      };
+
+      const recordModel = (id: string, model: string) =>
+        writeEntries(id, [{ type: "model", timestamp: Date.now(), model }]);
+
+      const load = (id: string) =>
+        Effect.gen(function* () {
+          const text = yield* fs.readFile(fileFor(id));
+          const lines = text.split("\n").filter((line) => line.trim());
+          const entries = yield* Effect.forEach(lines, (line) =>
+            decodeEntry(line).pipe(
+              Effect.mapError(
+                (e) => new ParseError(`Invalid session ${id}: ${String(e)}`),
+              ),
+            ),
+          );
+
+          const header = entries.find((entry) => entry.type === "session");
+          if (!header) {
+            return yield* Effect.fail(
+              new ParseError(`Session ${id} has no header`),
+            );
+          }
+
+          const meta: SessionMeta = {
+            id: header.id,
+            model: header.model,
+            cwd: header.cwd,
+            createdAt: header.createdAt,
+            updatedAt: header.createdAt,
+          };
+          const messages: ChatMessage[] = [];
+          for (const entry of entries) {
+            if (entry.type === "session") continue;
+            meta.updatedAt = entry.timestamp;
+            if (entry.type === "model") {
+              meta.model = entry.model;
+              continue;
+            }
+            const { tool_calls, tool_call_id, ...rest } = entry.message;
+            messages.push({
+              role: rest.role,
+              content: rest.content,
+              ...(tool_calls && {
+                tool_calls: tool_calls.map((call) => ({ ...call })),
+              }),
+              ...(tool_call_id !== undefined && { tool_call_id }),
+            });
+          }
+
+          return { meta, messages };
+        });
+
+      const list = () =>
+        Effect.gen(function* () {
+          if (!(yield* fs.exists(dir))) return [];
+          const names = yield* fs.readDir(dir);
+          const sessions = yield* Effect.forEach(
+            names.filter((name) => name.endsWith(".jsonl")),
+            (name) =>
+              load(name.replace(/\.jsonl$/, "")).pipe(
+                Effect.map((session) => [session]),
+                Effect.catchTag("ParseError", () => Effect.succeed([])),
+              ),
+          );
+          return sessions
+            .flat()
+            .map(({ meta, messages }) => ({
+              ...meta,
+              messageCount: messages.length,
+              title:
+                messages
+                  .find((m) => m.role === "user")
+                  ?.content.split("\n")
+                  .findLast((line) => line.trim())
+                  ?.slice(0, 60) ?? "(empty)",
+            }))
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+        });
+
+      return SessionService.of({
+        create,
+        appendMessages,
+        recordModel,
+        load,
+        list,
+      });
+    }),
+  );
+}
@@ -0,0 +1,81 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import { appendFile, mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { FileSystemService } from "./FileSystemService.ts";
+import { UsageService } from "./UsageService.ts";
+
+describe("UsageService", () => {
+  const originalHome = process.env.HOME;
+  let home = "";
+
+  afterAll(async () => {
+    process.env.HOME = originalHome;
+    if (home) await rm(home, { recursive: true, force: true });
+  });
+
+  const run = <A, E>(program: Effect.Effect<A, E, UsageService>) =>
+    Effect.runPromise(
+      program.pipe(
+        Effect.provide(
+          UsageService.layer.pipe(Layer.provide(FileSystemService.layer)),
+        ),
+      ),
+    );
+
+  test("appends tracked requests and skips lines that do not parse", async () => {
+    home = await mkdtemp(path.join(os.tmpdir(), "usage-"));
+    process.env.HOME = home;
+
+    const empty = await run(Effect.flatMap(UsageService, (u) => u.read()));
+    expect(empty).toEqual([]);
+
+    const records = await run(
+      Effect.gen(function* () {
+        const usage = yield* UsageService;
+        const track = usage.tracker("refactor");
+        yield* track("gpt-4.1", {
+          promptTokens: 1200,
+          completionTokens: 300,
+          cachedTokens: 1000,
+          estimated: false,
+        });
+        yield* Effect.promise(() =>
+          appendFile(
+            path.join(home, ".copilot-scripts", "usage.jsonl"),
+            "not json\n",
+          ),
+        );
+        yield* track("o3", {
+          promptTokens: 50,
+          completionTokens: 10,
+          estimated: true,
+        });
+        return yield* usage.read();
+      }),
+    );
+
+    expect(records.map(({ timestamp, ...record }) => ({ ...record }))).toEqual([
+      {
+        tool: "refactor",
+        model: "gpt-4.1",
+        cwd: process.cwd(),
+        promptTokens: 1200,
+        completionTokens: 300,
+        cachedTokens: 1000,
+        estimated: false,
+      },
+      {
+        tool: "refactor",
+        model: "o3",
+        cwd: process.cwd(),
+        promptTokens: 50,
+        completionTokens: 10,
+        cachedTokens: 0,
+        estimated: true,
+      },
+    ]);
+  });
+});
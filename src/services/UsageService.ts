@@ -0,0 +1,79 @@
+import { Context, Effect, Layer, Option, Schema } from "effect";
+import { FileSystemService } from "./FileSystemService.ts";
+import type { TokenUsage } from "../api/chat.ts";
+import { UsageRecord } from "../schemas/index.ts";
+import { FsError } from "../errors/index.ts";
+
+/** Token counts of one request; estimated when the API reported none. */
+export interface RequestUsage extends TokenUsage {
+  estimated: boolean;
+}
+
+/** Records the usage of one request to `model`; never fails. */
+export type UsageTracker = (
+  model: string,
+  usage: RequestUsage,
+) => Effect.Effect<void>;
+
+export interface UsageLedger {
+  readonly record: (record: UsageRecord) => Effect.Effect<void, FsError>;
+  /** Every record in the ledger; lines that do not parse are skipped. */
+  readonly read: () => Effect.Effect<UsageRecord[], FsError>;
+  /** A tracker tagging each request with `tool` and the working directory. */
+  readonly tracker: (tool: string) => UsageTracker;
+}
+
+const USAGE_FILE = ".copilot-scripts/usage.jsonl";
+const decodeRecord = Schema.decodeUnknown(Schema.parseJson(UsageRecord));
+
+/** Appends the token usage of every request to a JSONL ledger. */
+export class UsageService extends Context.Tag("@app/UsageService")<
+  UsageService,
+  UsageLedger
+>() {
+  static readonly layer = Layer.effect(
+    UsageService,
+    Effect.gen(function* () {
+      const fs = yield* FileSystemService;
+      const dir = fs.join(process.env.HOME || "", ".copilot-scripts");
+      const file = fs.join(process.env.HOME || "", USAGE_FILE);
+
+      const record = (entry: UsageRecord) =>
+        fs
+          .ensureDir(dir)
+          .pipe(
+            Effect.zipRight(fs.appendFile(file, JSON.stringify(entry) + "\n")),
+          );
+
+      const read = () =>
+        Effect.gen(function* () {
+          if (!(yield* fs.exists(file))) return [];
+          const lines = (yield* fs.readFile(file))
+            .split("\n")
+            .filter((line) => line.trim());
+          const records = yield* Effect.forEach(lines, (line) =>
+            decodeRecord(line).pipe(Effect.option),
+          );
+          return records.flatMap(Option.toArray);
+        });
+
+      const tracker =
+        (tool: string): UsageTracker =>
+        (model, usage) =>
+          record(
+            UsageRecord.make({
+              timestamp: Date.now(),
+              tool,
+              model,
+              cwd: process.cwd(),
+              promptTokens: usage.promptTokens,
+              completionTokens: usage.completionTokens,
+              cachedTokens: usage.cachedTokens ?? 0,
+              estimated: usage.estimated,
+            }),
+          ).pipe(Effect.ignore);
+
+      return UsageService.of({ record, read, tracker });
+    }),
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Minimal language server for LspService tests. It answers from canned data:
+ * every position resolves to line 0 of the opened file, and each opened
+ * document gets one diagnostic per line containing "TODO".
+ */
+let buffer = Buffer.alloc(0);
+const documents = new Map<string, string>();
+
+function send(message: object) {
+  const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+  process.stdout.write(
+    `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`,
+  );
+}
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+});
+
+function publishDiagnostics(uri: string) {
+  const lines = (documents.get(uri) ?? "").split("\n");
+  send({
+    method: "textDocument/publishDiagnostics",
+    params: {
+      uri,
+      diagnostics: lines.flatMap((text, line) =>
+        text.includes("TODO")
+          ? [
+              {
+                range: range(line, text.indexOf("TODO"), text.length),
+                severity: 2,
+                source: "stub",
+                message: "unfinished work",
+              },
+            ]
+          : [],
+      ),
+    },
+  });
+}
+
+function handle(message: any) {
+  const uri = message.params?.textDocument?.uri;
+  switch (message.method) {
+    case "initialize":
+      // Ask the client something first; it must answer without blocking.
+      send({ id: "probe", method: "workspace/configuration", params: {} });
+      return send({ id: message.id, result: { capabilities: {} } });
+    case "textDocument/didOpen":
+      documents.set(uri, message.params.textDocument.text);
+      return publishDiagnostics(uri);
+    case "textDocument/didChange":
+      documents.set(uri, message.params.contentChanges[0].text);
+      return publishDiagnostics(uri);
+    case "textDocument/definition":
+      return send({
+        id: message.id,
+        result: [{ uri, range: range(0, 0, 5) }],
+      });
+    case "textDocument/references":
+      return send({
+        id: message.id,
+        result: [
+          { uri, range: range(1, 0, 3) },
+          { uri, range: range(2, 0, 3) },
+        ],
+      });
+    case "textDocument/documentSymbol":
+      return send({
+        id: message.id,
+        result: [
+          {
+            name: "Greeter",
+            kind: 5,
+            range: range(0, 0, 20),
+            selectionRange: range(0, 6, 13),
+            children: [
+              {
+                name: "greet",
+                kind: 6,
+                range: range(1, 2, 18),
+                selectionRange: range(1, 2, 7),
+              },
+            ],
+          },
+        ],
+      });
+    case "textDocument/hover":
+      return send({
+        id: message.id,
+        result: {
+          contents: {
+            kind: "markdown",
+            value: `line ${message.params.position.line}`,
+          },
+        },
+      });
+    case "shutdown":
+      return send({ id: message.id, result: null });
+    case "exit":
+      return process.exit(0);
+  }
+}
+
+process.stdin.on("data", (chunk: Buffer) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  while (true) {
+    const headerEnd = buffer.indexOf("\r\n\r\n");
+    if (headerEnd === -1) return;
+    const length = Number(
+      buffer
+        .subarray(0, headerEnd)
+        .toString()
+        .match(/Content-Length: (\d+)/i)?.[1],
+    );
+    const start = headerEnd + 4;
+    if (buffer.length < start + length) return;
+    const body = buffer.subarray(start, start + length).toString();
+    buffer = buffer.subarray(start + length);
+    handle(JSON.parse(body));
+  }
+});
@@ -1,17 +1,43 @@
 #!/usr/bin/env bun
 import * as Effect from "effect/Effect";
 import { exec } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
 import readline from "node:readline";
 import { promisify } from "node:util";
 import os from "os";
+import path from "path";
+import type { ChatMessage, ToolCall, ToolDefinition } from "../api/chat.ts";
 import type { CopilotModel } from "../api/models.ts";
-import { CopilotChatInstance } from "../core/chat-instance.ts";
+import {
+  CopilotChatInstance,
+  DEFAULT_CONTINUATIONS,
+} from "../core/chat-instance.ts";
+import type { ContextStrategy } from "../core/context-window.ts";
 import { ModelResolver } from "../core/model-resolver.ts";
+import {
+  findProjectRoot,
+  loadProjectIndex,
+  type ProjectIndex,
+} from "../core/project-index.ts";
+import { type AppError, type HighlightError } from "../errors/index.ts";
 import { runMain } from "../runtime.ts";
 import { CopilotService, type Copilot } from "../services/CopilotService.ts";
 import { LogService, type Logger } from "../services/LogService.ts";
+import {
+  SessionService,
+  type Session,
+  type SessionSummary,
+  type Sessions,
+} from "../services/SessionService.ts";
+import {
+  UsageService,
+  type RequestUsage,
+  type UsageTracker,
+} from "../services/UsageService.ts";
 import { StreamBuffer } from "../utils/stream-buffer.ts";
 import { SyntaxHighlighter } from "../utils/syntax-highlighter.ts";
+import { getTokenCounter, type TokenCounter } from "../utils/tokenizer.ts";
 
 const execAsync = promisify(exec);
 
@@ -27,34 +53,165 @@ I will show you the outputs of every command you run.
 
 IMPORTANT: Be CONCISE and DIRECT. Avoid unnecessary explanations.`;
 
+const TOOL_SYSTEM_PROMPT = `This conversation is running inside a terminal session on ${os.platform()}, in ${process.cwd()}.
+
+You can inspect and change the system with the run_shell, read_file and write_file tools.
+Call them whenever you need information or need to act; you will receive their results.
+Keep calling tools until the task is done, then reply with a short final answer.
+
+IMPORTANT: Be CONCISE and DIRECT. Avoid unnecessary explanations.`;
+
+const AGENT_TOOLS: ToolDefinition[] = [
+  {
+    name: "run_shell",
+    description: "Run a bash command and return its combined stdout and stderr.",
+    parameters: {
+      type: "object",
+      properties: {
+        command: { type: "string", description: "The command to run." },
+      },
+      required: ["command"],
+    },
+  },
+  {
+    name: "read_file",
+    description: "Read a text file and return its contents.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path, relative to the cwd." },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "write_file",
+    description: "Create or overwrite a text file with the given contents.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path, relative to the cwd." },
+        content: { type: "string", description: "Full new file contents." },
+      },
+      required: ["path", "content"],
+    },
+  },
+];
+
+const DEFAULT_MAX_STEPS = 25;
+
+const CONTEXT_STRATEGIES: ContextStrategy[] = [
+  "drop-oldest",
+  "truncate-outputs",
+  "summarize",
+];
+
+interface StreamHandlers {
+  onChunk: (chunk: string) => Effect.Effect<void, HighlightError>;
+  onReasoning: (chunk: string) => Effect.Effect<void, HighlightError>;
+}
+
+/** Prints a turn's token usage, dimmed; `~` marks local estimates. */
+const showUsage = (usage: RequestUsage) => {
+  const approx = usage.estimated ? "~" : "";
+  const reasoning = usage.reasoningTokens
+    ? `, ${usage.reasoningTokens} reasoning`
+    : "";
+  process.stdout.write(
+    `\x1b[2m[${approx}${usage.promptTokens} in, ${approx}${usage.completionTokens} out${reasoning}]\x1b[0m\n`,
+  );
+};
+
 interface ChatEnv {
   copilot: Copilot;
+  trackUsage: UsageTracker;
   logService: Logger;
+  sessionService: Sessions;
   model: CopilotModel;
   logFile: string;
   resolver: ModelResolver;
+  maxSteps: number;
+  contextStrategy: ContextStrategy;
+  session: Session | null;
 }
 
 interface ParsedArgs {
-  modelSpec: string;
+  modelSpec: string | null;
   prompt: string | null;
+  maxSteps: number;
+  contextStrategy: ContextStrategy;
+  resume: boolean;
+  sessionId: string | null;
+  listSessions: boolean;
 }
 
-const USAGE = `Usage: chatsh [-X | --model-id] [prompt]
+const USAGE = `Usage: chatsh [-X | --model-id] [--max-steps N] [--context S] [--resume [id]] [prompt]
+       chatsh --list-sessions
 
 Options:
-  -X            Model shortcut (single char): -g, -c, -o
-  --model-id    Full model ID: --gpt-4.1, --claude-3.5-sonnet
+  -X              Model shortcut (single char): -g, -c, -o
+  --model-id      Full model ID: --gpt-4.1, --claude-3.5-sonnet
+  --max-steps N   Tool calls allowed per answer on tool-capable models
+                  (default: ${DEFAULT_MAX_STEPS})
+  --context S     How to fit long conversations into the model's input limit:
+                  drop-oldest (default), truncate-outputs, or summarize
+                  (older turns summarized by a faster model)
+  --resume [id]   Continue a saved session (default: the most recent one)
+  --list-sessions List saved sessions
 
 Examples:
   chatsh -g What is 2+2?       Single prompt with GPT
   chatsh --claude-3.5-sonnet   Interactive mode with Claude
+  chatsh --resume              Continue the last conversation
   chatsh                       Interactive mode with default model
 `;
 
 const parseArgs = (argv: string[]): ParsedArgs => {
   const args = argv.slice(2);
 
+  const maxStepsIndex = args.indexOf("--max-steps");
+  let maxSteps = DEFAULT_MAX_STEPS;
+  if (maxStepsIndex !== -1) {
+    const value = Number(args[maxStepsIndex + 1]);
+    if (!Number.isInteger(value) || value < 1) {
+      console.error(`Error: --max-steps expects a positive integer\n`);
+      console.error(USAGE);
+      process.exit(1);
+    }
+    maxSteps = value;
+    args.splice(maxStepsIndex, 2);
+  }
+
+  const contextIndex = args.indexOf("--context");
+  let contextStrategy: ContextStrategy = "drop-oldest";
+  if (contextIndex !== -1) {
+    const value = args[contextIndex + 1] as ContextStrategy;
+    if (!CONTEXT_STRATEGIES.includes(value)) {
+      console.error(
+        `Error: --context expects one of ${CONTEXT_STRATEGIES.join(", ")}\n`,
+      );
+      console.error(USAGE);
+      process.exit(1);
+    }
+    contextStrategy = value;
+    args.splice(contextIndex, 2);
+  }
+
+  const listSessions = args.includes("--list-sessions");
+  if (listSessions) {
+    args.splice(args.indexOf("--list-sessions"), 1);
+  }
+
+  const resumeIndex = args.indexOf("--resume");
+  const resume = resumeIndex !== -1;
+  let sessionId: string | null = null;
+  if (resume) {
+    const candidate = args[resumeIndex + 1];
+    const hasId = candidate !== undefined && /^\d+$/.test(candidate);
+    sessionId = hasId ? candidate : null;
+    args.splice(resumeIndex, hasId ? 2 : 1);
+  }
+
   // Check for invalid single-hyphen flags (more than 1 char after -)
   const invalidFlag = args.find(
     (a) => a.startsWith("-") && !a.startsWith("--") && a.length > 2,
@@ -80,21 +237,42 @@ const parseArgs = (argv: string[]): ParsedArgs => {
     return {
       modelSpec: modelSpec || "g",
       prompt: remaining.length > 0 ? remaining.join(" ") : null,
+      maxSteps,
+      contextStrategy,
+      resume,
+      sessionId,
+      listSessions,
     };
   }
 
-  return { modelSpec: "g", prompt: args.length > 0 ? args.join(" ") : null };
+  return {
+    modelSpec: null,
+    prompt: args.length > 0 ? args.join(" ") : null,
+    maxSteps,
+    contextStrategy,
+    resume,
+    sessionId,
+    listSessions,
+  };
 };
 
 interface SinglePromptEnv {
   copilot: Copilot;
+  trackUsage: UsageTracker;
   model: CopilotModel;
   prompt: string;
 }
 
-const runSinglePrompt = ({ copilot, model, prompt }: SinglePromptEnv) =>
+const runSinglePrompt = ({
+  copilot,
+  trackUsage,
+  model,
+  prompt,
+}: SinglePromptEnv) =>
   Effect.gen(function* () {
-    const chat = new CopilotChatInstance(copilot, model);
+    const chat = new CopilotChatInstance(copilot, model, {
+      usage: trackUsage,
+    });
     const highlighter = SyntaxHighlighter.create();
 
     yield* Effect.scoped(
@@ -105,7 +283,9 @@ const runSinglePrompt = ({ copilot, model, prompt }: SinglePromptEnv) =>
         );
         yield* chat.ask(prompt, {
           stream: true,
+          continuations: DEFAULT_CONTINUATIONS,
           onChunk: (chunk) => streamBuffer.write(chunk),
+          onReasoning: (chunk) => streamBuffer.writeReasoning(chunk),
         });
         yield* streamBuffer.flush();
       }),
@@ -115,37 +295,67 @@ const runSinglePrompt = ({ copilot, model, prompt }: SinglePromptEnv) =>
 
 async function runChat({
   copilot,
+  trackUsage,
   logService,
+  sessionService,
   model,
   logFile,
   resolver,
+  maxSteps,
+  contextStrategy,
+  session,
 }: ChatEnv) {
   console.log(`${model.name} (${model.id})\n`);
 
-  const chat = new CopilotChatInstance(copilot, model);
+  const summaryModel =
+    contextStrategy === "summarize"
+      ? await Effect.runPromise(resolver.listModels()).then(
+          ModelResolver.findFastModel,
+          () => undefined,
+        )
+      : undefined;
+  const chat = new CopilotChatInstance(copilot, model, {
+    context: { strategy: contextStrategy },
+    ...(summaryModel && { summaryModel }),
+    usage: trackUsage,
+  });
 
   const log = (text: string) =>
     Effect.runPromise(logService.append(logFile, text)).catch(() => {});
 
   let aiCommandOutputs: string[] = [];
   let userCommandOutputs: string[] = [];
+  // Tool results left unanswered when an agent turn stops at the step limit
+  // or fails; they are sent ahead of the next message.
+  let pendingToolResults: ChatMessage[] = [];
+
+  // The session file is created lazily so empty conversations leave no trace.
+  let sessionId: string | null = null;
+  let savedCount = 0;
 
-  type DropdownMode = "command" | "model" | null;
+  type DropdownMode = "command" | "model" | "session" | null;
   type CommandEntry = { label: string; description: string };
   const COMMANDS: CommandEntry[] = [
     { label: "/model", description: "Switch the active AI model" },
+    { label: "/sessions", description: "Resume a saved session" },
+    {
+      label: "/context",
+      description: "Add project files or symbols to the next message",
+    },
   ];
 
   let inputBuffer = "";
   let cursor = 0;
   let commandIndex = 0;
   let modelIndex = 0;
+  let sessionIndex = 0;
   let lastFilterTerm = "";
 
   let dropdownState = {
     mode: null as DropdownMode,
     commands: [] as CommandEntry[],
     models: [] as CopilotModel[],
+    sessions: [] as SessionSummary[],
     filterTerm: "",
   };
 
@@ -153,6 +363,10 @@ async function runChat({
   let pendingModelFetch: Promise<void> | null = null;
   let modelFetchError: string | null = null;
 
+  let allSessions: SessionSummary[] | null = null;
+  let pendingSessionFetch: Promise<void> | null = null;
+  let sessionFetchError: string | null = null;
+
   let isSubmitting = false;
 
   const PROMPT_STYLED = "\x1b[1mλ \x1b[0m";
@@ -165,6 +379,7 @@ async function runChat({
 
   const startSpinner = () => {
     if (spinnerTimer) return;
+    spinnerStopped = false;
     spinnerTimer = setInterval(() => {
       process.stderr.write(`\r${frames[frameIdx]}`);
       frameIdx = (frameIdx + 1) % frames.length;
@@ -205,11 +420,28 @@ async function runChat({
       });
   };
 
+  const ensureSessionCache = () => {
+    if (allSessions || pendingSessionFetch) return;
+    pendingSessionFetch = Effect.runPromise(sessionService.list())
+      .then((sessions) => {
+        allSessions = sessions;
+        sessionFetchError = null;
+      })
+      .catch((err) => {
+        sessionFetchError = err instanceof Error ? err.message : String(err);
+      })
+      .finally(() => {
+        pendingSessionFetch = null;
+        render();
+      });
+  };
+
   const updateDropdownState = () => {
     if (!inputBuffer.startsWith("/")) {
       dropdownState.mode = null;
       dropdownState.commands = [];
       dropdownState.models = [];
+      dropdownState.sessions = [];
       dropdownState.filterTerm = "";
       return;
     }
@@ -217,6 +449,26 @@ async function runChat({
     const afterSlash = inputBuffer.slice(1);
     const normalized = afterSlash.trimStart().toLowerCase();
     const isModelCommand = normalized.startsWith("model");
+    const isSessionCommand = normalized.startsWith("sessions");
+
+    if (isSessionCommand) {
+      ensureSessionCache();
+      const filterTerm = afterSlash.slice("sessions".length).trim();
+      if (filterTerm !== lastFilterTerm) {
+        sessionIndex = 0;
+      }
+      lastFilterTerm = filterTerm;
+      dropdownState.mode = "session";
+      dropdownState.filterTerm = filterTerm;
+      dropdownState.sessions = (allSessions ?? []).filter((entry) =>
+        formatSession(entry).toLowerCase().includes(filterTerm.toLowerCase()),
+      );
+      sessionIndex = Math.max(
+        0,
+        Math.min(sessionIndex, dropdownState.sessions.length - 1),
+      );
+      return;
+    }
 
     if (isModelCommand) {
       ensureModelCache();
@@ -281,6 +533,22 @@ async function runChat({
         return `${highlight}  ${candidate.id} (${candidate.name})${reset}`;
       });
     }
+    if (dropdownState.mode === "session") {
+      if (sessionFetchError) {
+        return [`  ${sessionFetchError}`];
+      }
+      if (!allSessions) {
+        return ["  Loading sessions..."];
+      }
+      if (!dropdownState.sessions.length) {
+        return ["  No saved sessions match your filter."];
+      }
+      return dropdownState.sessions.map((entry, idx) => {
+        const highlight = idx === sessionIndex ? "\x1b[7m" : "";
+        const reset = highlight ? "\x1b[0m" : "";
+        return `${highlight}  ${formatSession(entry)}${reset}`;
+      });
+    }
     return [];
   };
 
@@ -312,11 +580,14 @@ async function runChat({
     cursor = 0;
     commandIndex = 0;
     modelIndex = 0;
+    sessionIndex = 0;
     lastFilterTerm = "";
+    allSessions = null;
     dropdownState = {
       mode: null,
       commands: [],
       models: [],
+      sessions: [],
       filterTerm: "",
     };
   };
@@ -330,9 +601,9 @@ async function runChat({
     if (!dropdownState.commands.length) return;
     inputBuffer = `${dropdownState.commands[commandIndex].label} `;
     cursor = inputBuffer.length;
-    dropdownState.mode = "model";
     lastFilterTerm = "";
     modelIndex = 0;
+    sessionIndex = 0;
     updateDropdownState();
     render();
   };
@@ -350,13 +621,265 @@ async function runChat({
       prepareForOutput();
       process.stdout.write(`> Active model switched to: ${selected.id}\n`);
       await log(`\n> Active model switched to: ${selected.id}\n`);
+      if (sessionId) {
+        await Effect.runPromise(
+          sessionService.recordModel(sessionId, selected.id),
+        ).catch(() => {});
+      }
+      resetInput();
+    } finally {
+      isSubmitting = false;
+      render();
+    }
+  };
+
+  const resumeSession = (loaded: Session) => {
+    chat.setHistory(loaded.messages);
+    sessionId = loaded.meta.id;
+    savedCount = loaded.messages.length;
+    aiCommandOutputs = [];
+    userCommandOutputs = [];
+    pendingToolResults = danglingToolResults(loaded.messages);
+    for (const message of loaded.messages.slice(-REPLAY_MESSAGES)) {
+      if (message.role === "user") {
+        const line = message.content.split("\n").findLast((l) => l.trim());
+        process.stdout.write(`${PROMPT_STYLED}${line ?? ""}\n`);
+      } else if (message.role === "assistant" && message.content) {
+        process.stdout.write(`\x1b[2m${message.content}\x1b[0m\n\n`);
+      }
+    }
+    process.stdout.write(
+      `> Resumed session ${loaded.meta.id} (${loaded.messages.length} messages, ${chat.getModel().id})\n`,
+    );
+  };
+
+  const handleSessionSelection = async () => {
+    if (dropdownState.mode !== "session" || !dropdownState.sessions.length) {
+      return;
+    }
+    const selected =
+      dropdownState.sessions[
+        Math.min(sessionIndex, dropdownState.sessions.length - 1)
+      ];
+    if (!selected) return;
+    isSubmitting = true;
+    try {
+      prepareForOutput();
+      const loaded = await Effect.runPromise(sessionService.load(selected.id));
+      const models = allModels ?? (await Effect.runPromise(resolver.listModels()));
+      const sessionModel = models.find((m) => m.id === loaded.meta.model);
+      if (sessionModel) {
+        chat.setModel(sessionModel);
+      }
+      process.stdout.write("\n");
+      resumeSession(loaded);
+      await log(`\n> Resumed session ${loaded.meta.id}\n`);
       resetInput();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      process.stdout.write(`> Failed to resume session: ${message}\n`);
     } finally {
       isSubmitting = false;
       render();
     }
   };
 
+  const persistTurn = async () => {
+    const history = chat.getHistory();
+    const fresh = history.slice(savedCount);
+    if (fresh.length === 0) return;
+    try {
+      if (!sessionId) {
+        const meta = await Effect.runPromise(
+          sessionService.create(chat.getModel().id, process.cwd()),
+        );
+        sessionId = meta.id;
+      }
+      await Effect.runPromise(sessionService.appendMessages(sessionId, fresh));
+      savedCount = history.length;
+    } catch {
+      // Session persistence is best-effort; the plain-text log still has the turn.
+    }
+  };
+
+  const streamTurn = <A>(
+    request: (handlers: StreamHandlers) => Effect.Effect<A, AppError>,
+  ) => {
+    const highlighter = SyntaxHighlighter.create();
+    return Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          yield* spinner;
+          const streamBuffer = yield* StreamBuffer.create(
+            (text) => process.stdout.write(text),
+            highlighter,
+          );
+          const result = yield* request({
+            onChunk: (chunk) =>
+              Effect.gen(function* () {
+                stopSpinner();
+                yield* streamBuffer.write(chunk);
+              }),
+            onReasoning: (chunk) =>
+              Effect.gen(function* () {
+                stopSpinner();
+                yield* streamBuffer.writeReasoning(chunk);
+              }),
+          });
+          yield* streamBuffer.flush();
+          return result;
+        }),
+      ),
+    );
+  };
+
+  const runCommand = async (script: string) => {
+    try {
+      const { stdout, stderr } = await execAsync(script);
+      return stdout + stderr;
+    } catch (e: any) {
+      return e?.message || String(e);
+    }
+  };
+
+  const runTaggedTurn = async (fullMessage: string) => {
+    // Tool calls left by an earlier model or a resumed session still need
+    // their answers, or the API rejects the history.
+    const toolResults = pendingToolResults;
+    pendingToolResults = [];
+    const { content: response, usage } = await streamTurn((handlers) =>
+      chat.send([...toolResults, { role: "user", content: fullMessage }], {
+        system: SYSTEM_PROMPT,
+        stream: true,
+        continuations: DEFAULT_CONTINUATIONS,
+        ...handlers,
+      }),
+    ).catch((err) => {
+      pendingToolResults = toolResults;
+      throw err;
+    });
+
+    process.stdout.write("\n");
+    showUsage(usage);
+    await log(response + "\n");
+
+    const runMatches = [...response.matchAll(/<RUN>(.*?)<\/RUN>/gs)];
+    aiCommandOutputs = [];
+
+    for (const match of runMatches) {
+      const script = match[1].trim();
+      const answer = await askQuestion(`\nExecute this command? [Y/n]: `);
+
+      if (answer.toLowerCase() === "n") {
+        continue;
+      }
+
+      const output = await runCommand(script);
+      process.stdout.write("\x1b[2m" + output + "\x1b[0m\n");
+      aiCommandOutputs.push(output);
+      await log(`\n# ${script}\n${output}\n`);
+    }
+  };
+
+  const executeToolCall = async (call: ToolCall): Promise<string> => {
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(call.arguments || "{}");
+    } catch {
+      return `Invalid JSON arguments for ${call.name}: ${call.arguments}`;
+    }
+    const target =
+      typeof args.path === "string" ? path.resolve(args.path) : "";
+
+    switch (call.name) {
+      case "run_shell": {
+        const command = String(args.command ?? "");
+        process.stdout.write(`\n\x1b[1m$ ${command}\x1b[0m\n`);
+        const answer = await askQuestion(`Execute this command? [Y/n]: `);
+        if (answer.toLowerCase() === "n") {
+          return "The user declined to run this command.";
+        }
+        const output = await runCommand(command);
+        process.stdout.write("\x1b[2m" + output + "\x1b[0m\n");
+        await log(`\n# ${command}\n${output}\n`);
+        return output || "(no output)";
+      }
+      case "read_file": {
+        process.stdout.write(`\n\x1b[2mread ${target}\x1b[0m\n`);
+        await log(`\n# read ${target}\n`);
+        return readFile(target, "utf8").catch(
+          (e: any) => `Failed to read ${target}: ${e?.message || e}`,
+        );
+      }
+      case "write_file": {
+        const content = String(args.content ?? "");
+        process.stdout.write(
+          `\n\x1b[1mwrite ${target} (${content.length} chars)\x1b[0m\n`,
+        );
+        const answer = await askQuestion(`Write this file? [Y/n]: `);
+        if (answer.toLowerCase() === "n") {
+          return "The user declined to write this file.";
+        }
+        await log(`\n# write ${target}\n${content}\n`);
+        return mkdir(path.dirname(target), { recursive: true })
+          .then(() => writeFile(target, content))
+          .then(
+            () => `Wrote ${content.length} characters to ${target}.`,
+            (e: any) => `Failed to write ${target}: ${e?.message || e}`,
+          );
+      }
+      default:
+        return `Unknown tool: ${call.name}`;
+    }
+  };
+
+  const runAgentTurn = async (fullMessage: string) => {
+    let input: ChatMessage[] = [
+      ...pendingToolResults,
+      { role: "user", content: fullMessage },
+    ];
+    pendingToolResults = [];
+    aiCommandOutputs = [];
+
+    for (let step = 0; step < maxSteps; step++) {
+      const response = await streamTurn((handlers) =>
+        chat.send(input, {
+          system: TOOL_SYSTEM_PROMPT,
+          stream: true,
+          tools: AGENT_TOOLS,
+          continuations: DEFAULT_CONTINUATIONS,
+          ...handlers,
+        }),
+      ).catch((err) => {
+        // A failed request adds nothing to the history, which then still ends
+        // with the tool calls; keep their results for the next turn.
+        pendingToolResults = input.filter(
+          (message) => message.role === "tool",
+        );
+        throw err;
+      });
+
+      if (response.content) {
+        process.stdout.write("\n");
+        await log(response.content + "\n");
+      }
+      showUsage(response.usage);
+      if (response.toolCalls.length === 0) return;
+
+      input = [];
+      for (const call of response.toolCalls) {
+        const output = await executeToolCall(call);
+        input.push({ role: "tool", tool_call_id: call.id, content: output });
+      }
+    }
+
+    pendingToolResults = input;
+    process.stdout.write(
+      `\n\x1b[2m> Stopped after ${maxSteps} tool steps (see --max-steps).\x1b[0m\n`,
+    );
+    await log(`\n> Stopped after ${maxSteps} tool steps\n`);
+  };
+
   const handleLine = async (rawLine: string) => {
     if (isSubmitting) return;
     isSubmitting = true;
@@ -366,6 +889,22 @@ async function runChat({
         return;
       }
 
+      if (line === "/context" || line.startsWith("/context ")) {
+        const query = line.slice("/context".length).trim();
+        prepareForOutput();
+        process.stdout.write("\n");
+        const root = findProjectRoot(process.cwd());
+        const index = root ? loadProjectIndex(root) : undefined;
+        const output = index
+          ? describeContext(index, query, getTokenCounter(chat.getModel()))
+          : "Not inside a git repository; there is no project to search.";
+        index?.save();
+        process.stdout.write("\x1b[2m" + output + "\x1b[0m\n");
+        userCommandOutputs.push(output);
+        await log(`\n/context ${query}\n${output}\n`);
+        return;
+      }
+
       if (line.startsWith("!")) {
         const cmd = line.slice(1);
         prepareForOutput();
@@ -396,60 +935,15 @@ async function runChat({
 
       prepareForOutput();
       process.stdout.write("\n");
-      const highlighter = SyntaxHighlighter.create();
-      const response = await Effect.runPromise(
-        Effect.scoped(
-          Effect.gen(function* () {
-            yield* spinner;
-            const streamBuffer = yield* StreamBuffer.create(
-              (text) => process.stdout.write(text),
-              highlighter,
-            );
-            const result = yield* chat.ask(fullMessage, {
-              system: SYSTEM_PROMPT,
-              stream: true,
-              onChunk: (chunk) =>
-                Effect.gen(function* () {
-                  stopSpinner();
-                  yield* streamBuffer.write(chunk);
-                }),
-            });
-            yield* streamBuffer.flush();
-            return result;
-          }),
-        ),
-      );
-
-      process.stdout.write("\n");
-      await log(response + "\n");
-
-      const runMatches = [...response.matchAll(/<RUN>(.*?)<\/RUN>/gs)];
-      aiCommandOutputs = [];
-
-      for (const match of runMatches) {
-        const script = match[1].trim();
-        const answer = await askQuestion(`\nExecute this command? [Y/n]: `);
-
-        if (answer.toLowerCase() === "n") {
-          continue;
-        }
-
-        try {
-          const { stdout, stderr } = await execAsync(script);
-          const output = stdout + stderr;
-          process.stdout.write("\x1b[2m" + output + "\x1b[0m\n");
-          aiCommandOutputs.push(output);
-          await log(`\n# ${script}\n${output}\n`);
-        } catch (e: any) {
-          const message = e?.message || String(e);
-          process.stdout.write("\x1b[2m" + message + "\x1b[0m\n");
-          aiCommandOutputs.push(message);
-          await log(`\n# ${script}\n${message}\n`);
-        }
+      if (chat.getModel().tools) {
+        await runAgentTurn(fullMessage);
+      } else {
+        await runTaggedTurn(fullMessage);
       }
 
       userCommandOutputs = [];
     } finally {
+      await persistTurn();
       isSubmitting = false;
       resetInput();
       render();
@@ -475,13 +969,22 @@ async function runChat({
         void handleModelSelection();
         return;
       }
+      if (dropdownState.mode === "session") {
+        void handleSessionSelection();
+        return;
+      }
       const trimmed = inputBuffer.trim();
       if (!trimmed) {
         resetInput();
         render();
         return;
       }
-      void handleLine(trimmed);
+      void handleLine(trimmed).catch((err) => {
+        prepareForOutput();
+        const message = err instanceof Error ? err.message : String(err);
+        process.stdout.write(`\n\x1b[31mError: ${message}\x1b[0m\n`);
+        render();
+      });
       return;
     }
     if (isSubmitting) return;
@@ -546,6 +1049,17 @@ async function runChat({
           render();
           return;
         }
+        if (
+          dropdownState.mode === "session" &&
+          dropdownState.sessions.length
+        ) {
+          const delta = key.name === "up" ? -1 : 1;
+          const length = dropdownState.sessions.length;
+          sessionIndex = (sessionIndex + delta + length) % length;
+          updateDropdownState();
+          render();
+          return;
+        }
         return;
     }
 
@@ -608,23 +1122,150 @@ async function runChat({
 
   process.on("SIGINT", handleSigint);
 
+  if (session) {
+    resumeSession(session);
+  }
+
   attachKeyListener();
   render();
 }
 
+const REPLAY_MESSAGES = 6;
+const CONTEXT_TOP_FILES = 10;
+
+/**
+ * `/context` output. Without a query it summarises the project; a file path
+ * adds the file with its imports and importers, and a symbol name lists the
+ * files exporting it.
+ */
+function describeContext(
+  index: ProjectIndex,
+  query: string,
+  counter: TokenCounter,
+): string {
+  const rel = (file: string) => path.relative(index.root, file);
+  const list = (files: string[]) =>
+    files.length > 0 ? files.map(rel).join(", ") : "none";
+
+  if (!query) {
+    const total = index.files.reduce(
+      (sum, file) => sum + index.tokens(file, counter),
+      0,
+    );
+    const hubs = index.files
+      .map((file) => ({ file, importers: index.importersOf(file).length }))
+      .filter(({ importers }) => importers > 0)
+      .sort((a, b) => b.importers - a.importers)
+      .slice(0, CONTEXT_TOP_FILES)
+      .map(({ file, importers }) => `  ${rel(file)} (${importers} importers)`);
+    return [
+      `Project ${index.root}: ${index.files.length} files, ${total} tokens (${counter.name})`,
+      ...(hubs.length > 0 ? ["Most imported:", ...hubs] : []),
+    ].join("\n");
+  }
+
+  const entry = index.get(path.resolve(process.cwd(), query));
+  if (entry) {
+    return [
+      `${rel(entry.file)} (${index.tokens(entry.file, counter)} tokens)`,
+      `exports: ${entry.exports.join(", ") || "none"}`,
+      `imports: ${list(entry.imports)}`,
+      `imported by: ${list(index.importersOf(entry.file))}`,
+      "```",
+      readFileSync(entry.file, "utf8").trimEnd(),
+      "```",
+    ].join("\n");
+  }
+
+  const definers = index.definersOf(query);
+  if (definers.length > 0) {
+    return [
+      `${query} is exported by:`,
+      ...definers.map(
+        (file) => `  ${rel(file)} (${index.tokens(file, counter)} tokens)`,
+      ),
+    ].join("\n");
+  }
+  return `No indexed file or exported symbol matches ${query}`;
+}
+
+const formatSession = (entry: SessionSummary) =>
+  `${entry.id}  ${new Date(entry.updatedAt).toLocaleString()}  ${entry.model}  ${entry.messageCount} msgs  ${entry.title}`;
+
+// A session saved mid agent-turn ends with tool calls that never got results;
+// the API rejects such a history unless every call is answered.
+const danglingToolResults = (messages: ChatMessage[]): ChatMessage[] => {
+  const last = messages.at(-1);
+  if (last?.role !== "assistant" || !last.tool_calls?.length) return [];
+  return last.tool_calls.map((call) => ({
+    role: "tool",
+    tool_call_id: call.id,
+    content: "Not run: the session was interrupted before this tool call.",
+  }));
+};
+
+const loadSession = (sessionService: Sessions, id: string | null) =>
+  Effect.gen(function* () {
+    if (id) return yield* sessionService.load(id);
+    const [latest] = yield* sessionService.list();
+    if (!latest) {
+      console.error("No saved chatsh sessions to resume");
+      return process.exit(1);
+    }
+    return yield* sessionService.load(latest.id);
+  });
+
 const main = Effect.gen(function* () {
-  const { modelSpec, prompt } = parseArgs(process.argv);
+  const {
+    modelSpec,
+    prompt,
+    maxSteps,
+    contextStrategy,
+    resume,
+    sessionId,
+    listSessions,
+  } = parseArgs(process.argv);
+  const sessionService = yield* SessionService;
+
+  if (listSessions) {
+    const sessions = yield* sessionService.list();
+    if (sessions.length === 0) console.log("No saved sessions");
+    for (const entry of sessions) console.log(formatSession(entry));
+    return;
+  }
+
+  if (resume && prompt) {
+    console.error("Error: --resume starts an interactive session; drop the prompt\n");
+    console.error(USAGE);
+    return process.exit(1);
+  }
+
   const copilot = yield* CopilotService;
+  const trackUsage = (yield* UsageService).tracker("chatsh");
   const resolver = yield* ModelResolver.make();
-  const model = yield* resolver.resolve(modelSpec);
+  const session = resume ? yield* loadSession(sessionService, sessionId) : null;
+  const model = yield* resolver.resolve(
+    modelSpec ?? session?.meta.model ?? "g",
+  );
 
   if (prompt) {
-    yield* runSinglePrompt({ copilot, model, prompt });
+    yield* runSinglePrompt({ copilot, trackUsage, model, prompt });
   } else {
     const logService = yield* LogService;
     const logFile = yield* logService.createLogFile("chatsh");
     yield* Effect.promise(() =>
-      runChat({ copilot, logService, model, logFile, resolver }),
+      runChat({
+        copilot,
+        trackUsage,
+        logService,
+        sessionService,
+        model,
+        logFile,
+        resolver,
+        maxSteps,
+        contextStrategy,
+        session,
+      }),
     );
   }
 });
@@ -1,10 +1,11 @@
 #!/usr/bin/env bun
 import * as Effect from "effect/Effect";
-import * as Stream from "effect/Stream";
 import { execSync } from "node:child_process";
-import { chatStream } from "../api/chat.ts";
+import { CopilotChatInstance } from "../core/chat-instance.ts";
 import { ModelResolver } from "../core/model-resolver.ts";
 import { runMain } from "../runtime.ts";
+import { CopilotService } from "../services/CopilotService.ts";
+import { UsageService } from "../services/UsageService.ts";
 
 const SYSTEM_PROMPT = `Write commit message for the change with commitizen convention. Keep the title under 50 characters and wrap message at 72 characters. Format as a gitcommit code block.`;
 
@@ -75,14 +76,13 @@ const main = Effect.gen(function* () {
 
   const userMessage = `Here are the staged changes:\n\n${diff}`;
 
-  const stream = chatStream(model, [
-    { role: "system", content: SYSTEM_PROMPT },
-    { role: "user", content: userMessage },
-  ]);
+  const chat = new CopilotChatInstance(yield* CopilotService, model, {
+    usage: (yield* UsageService).tracker("commitmsg"),
+  });
 
-  const response = yield* Stream.runFold(stream, "", (acc, chunk) => {
-    process.stderr.write(chunk);
-    return acc + chunk;
+  const response = yield* chat.ask(userMessage, {
+    system: SYSTEM_PROMPT,
+    onChunk: (chunk) => Effect.sync(() => process.stderr.write(chunk)),
   });
 
   process.stderr.write("\n");
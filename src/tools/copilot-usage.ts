@@ -0,0 +1,70 @@
+#!/usr/bin/env bun
+import * as Effect from "effect/Effect";
+import { formatUsage, summarizeUsage } from "../core/usage-report.ts";
+import { runMain } from "../runtime.ts";
+import { UsageService } from "../services/UsageService.ts";
+
+const USAGE = `Usage: copilot-usage [--days N] [--json]
+
+Summarizes the tokens the copilot tools spent, by day, tool and model.
+Counts marked with ~ include local estimates for requests the API did not report.
+
+Options:
+  --days N   Only include the last N days (today counts as one)
+  --json     Print the rows as JSON
+`;
+
+interface ParsedArgs {
+  days: number | null;
+  json: boolean;
+}
+
+const parseArgs = (argv: string[]): ParsedArgs => {
+  const args = argv.slice(2);
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const daysIndex = args.indexOf("--days");
+  let days: number | null = null;
+  if (daysIndex !== -1) {
+    days = Number(args[daysIndex + 1]);
+    if (!Number.isInteger(days) || days < 1) {
+      console.error("Error: --days expects a positive number of days\n");
+      console.error(USAGE);
+      process.exit(1);
+    }
+  }
+
+  return { days, json: args.includes("--json") };
+};
+
+/** Start of the local day `days - 1` days ago. */
+const sinceDays = (days: number): number => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return start.getTime();
+};
+
+const main = Effect.gen(function* () {
+  const { days, json } = parseArgs(process.argv);
+  const records = yield* (yield* UsageService).read();
+  const since = days === null ? 0 : sinceDays(days);
+  const rows = summarizeUsage(
+    records.filter((record) => record.timestamp >= since),
+  );
+
+  if (json) {
+    process.stdout.write(JSON.stringify(rows, null, 2) + "\n");
+    return;
+  }
+  console.log(formatUsage(rows));
+});
+
+runMain(main).catch((err) => {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -1,34 +1,109 @@
 #!/usr/bin/env bun
 import * as Effect from "effect/Effect";
 import path from "path";
-import { CopilotChatInstance } from "../core/chat-instance.ts";
+import {
+  CopilotChatInstance,
+  DEFAULT_CONTINUATIONS,
+} from "../core/chat-instance.ts";
+import {
+  offsetToPosition,
+  rangeOf,
+  writeReport,
+} from "../core/edit-report.ts";
+import {
+  HOLE,
+  describeIndent,
+  detectIndentStyle,
+  findHoles,
+  fillHoles,
+  fillMarker,
+  markHoles,
+  nearestHole,
+  parseCompletions,
+  reindentFills,
+  type Hole,
+} from "../core/holes.ts";
 import { ModelResolver } from "../core/model-resolver.ts";
+import {
+  emptyProjectIndex,
+  findProjectRoot,
+  loadProjectIndex,
+  type ProjectIndex,
+} from "../core/project-index.ts";
 import { runMain } from "../runtime.ts";
 import { CopilotService } from "../services/CopilotService.ts";
 import {
   FileSystemService,
   type FileSystem,
 } from "../services/FileSystemService.ts";
+import { LspService, type LspClient } from "../services/LspService.ts";
+import { UsageService } from "../services/UsageService.ts";
 
-const SYSTEM_PROMPT = `You fill EXACTLY ONE placeholder inside a user-provided file.
+const SYSTEM_PROMPT = `You fill numbered placeholders inside a user-provided file.
 
-The user will send you a complete file with a single {:FILL_HERE:} marker.
+The user will send you a complete file with one or more {:FILL_HERE_n:} markers (n = 1, 2, ...).
+Other ".?." placeholders, if any, are not your concern; leave them alone.
 
 Rules:
 - Inspect the surrounding text to understand context
 - Preserve indentation, spacing, and code style
-- Output ONLY the replacement text (no explanations)
-- Wrap your output in <COMPLETION>...</COMPLETION> tags
-- Do not include the marker itself in your response
+- The first line of a replacement continues at the marker's position; write later lines with their full indentation as they should appear in the file (the indentation of each marker is listed after the file)
+- Output ONLY the replacement text for each marker (no explanations)
+- Wrap each replacement in <COMPLETION id="n">...</COMPLETION> tags, using the marker's number
+- Do not include the markers themselves in your response
 
 Example:
-User sends: function test() {\n  {:FILL_HERE:}\n}
-You respond: <COMPLETION>return 42;</COMPLETION>`;
+User sends: function test() {\n  {:FILL_HERE_1:}\n}\nconst x = {:FILL_HERE_2:};
+You respond: <COMPLETION id="1">return 42;</COMPLETION>\n<COMPLETION id="2">test()</COMPLETION>`;
+
+const USAGE = `Usage: holefill <file> [<mini_file>] [<model>] [--line N] [--sequential] [--json]
 
-function leftAlignHoles(code: string): string {
-  return code.replace(/^([ \t]+)(\.\?\.)$/gm, "$2");
+Fills every .?. placeholder in <file>.
+
+Options:
+  --line N       Fill only the hole nearest to line N (1-based)
+  --sequential   Fill holes one request at a time, so later holes see earlier fills
+  --json         Print the proposed fills as JSON instead of editing the file
+`;
+
+interface ParsedArgs {
+  filePath: string | undefined;
+  miniPath: string;
+  modelSpec: string;
+  line: number | null;
+  sequential: boolean;
+  json: boolean;
 }
 
+const parseArgs = (argv: string[]): ParsedArgs => {
+  const args = argv.slice(2);
+
+  const lineIndex = args.indexOf("--line");
+  let line: number | null = null;
+  if (lineIndex !== -1) {
+    line = Number(args[lineIndex + 1]);
+    if (!Number.isInteger(line) || line < 1) {
+      console.error("Error: --line expects a positive line number\n");
+      console.error(USAGE);
+      process.exit(1);
+    }
+    args.splice(lineIndex, 2);
+  }
+
+  const sequential = args.includes("--sequential");
+  const json = args.includes("--json");
+  const positional = args.filter((a) => a !== "--sequential" && a !== "--json");
+
+  return {
+    filePath: positional[0],
+    miniPath: positional[1] || "",
+    modelSpec: positional[2] || "g",
+    line,
+    sequential,
+    json,
+  };
+};
+
 function expandInlineImports(code: string, baseDir: string, fs: FileSystem) {
   return Effect.gen(function* () {
     const lines = code.split("\n");
@@ -52,18 +127,97 @@ function expandInlineImports(code: string, baseDir: string, fs: FileSystem) {
   });
 }
 
+const HINT_CONTEXT_LINES = 3;
+const MAX_TYPE_HINTS = 30;
+const MAX_HINT_LENGTH = 200;
+
+/**
+ * Hover types for the identifiers on and just above the holes `ids`, so the
+ * model sees inferred types it cannot read from the text.
+ */
+function typeHints(
+  client: LspClient,
+  file: string,
+  code: string,
+  holes: Hole[],
+  ids: number[],
+) {
+  const lineStarts = [0, ...[...code.matchAll(/\n/g)].map((m) => m.index + 1)];
+  const lines = new Set(
+    holes
+      .filter((hole) => ids.includes(hole.id))
+      .flatMap((hole) =>
+        Array.from(
+          { length: HINT_CONTEXT_LINES + 1 },
+          (_, i) => hole.line - 1 - i,
+        ),
+      )
+      .filter((line) => line >= 0 && line < lineStarts.length),
+  );
+
+  const identifiers = new Map<string, number>();
+  for (const line of [...lines].sort((a, b) => a - b)) {
+    const text = code.slice(lineStarts[line], lineStarts[line + 1]);
+    for (const match of text.matchAll(/\b[A-Za-z_$][\w$]*\b/g)) {
+      if (!identifiers.has(match[0])) {
+        identifiers.set(match[0], lineStarts[line] + match.index);
+      }
+    }
+  }
+
+  return Effect.forEach(
+    [...identifiers].slice(0, MAX_TYPE_HINTS),
+    ([name, offset]) =>
+      client.hover(file, offsetToPosition(code, offset)).pipe(
+        Effect.map((text) => {
+          const summary = text
+            ?.replace(/```\w*/g, "")
+            .split("\n")
+            .map((l) => l.trim())
+            .filter(Boolean)[0];
+          return summary
+            ? `- ${name}: ${summary.slice(0, MAX_HINT_LENGTH)}`
+            : null;
+        }),
+        Effect.orElseSucceed(() => null),
+      ),
+    { concurrency: 8 },
+  ).pipe(
+    Effect.map((hints) => hints.filter((hint): hint is string => !!hint)),
+  );
+}
+
+const MAX_IMPORTED_FILES = 20;
+
+/** Names exported by the project files `file` imports, as a prompt trailer. */
+function importedExports(index: ProjectIndex, file: string): string {
+  const lines = index
+    .importsOf(file)
+    .map((dep) => ({ dep, exports: index.get(dep)?.exports ?? [] }))
+    .filter(({ exports }) => exports.length > 0)
+    .slice(0, MAX_IMPORTED_FILES)
+    .map(
+      ({ dep, exports }) =>
+        `- ${path.relative(index.root, dep)}: ${exports.join(", ")}`,
+    );
+  return lines.length > 0
+    ? `\n\nExports of the project files it imports:\n${lines.join("\n")}`
+    : "";
+}
+
 const main = Effect.gen(function* () {
-  const filePath = process.argv[2];
-  const miniPath = process.argv[3] || "";
-  const modelSpec = process.argv[4] || "g";
+  const { filePath, miniPath, modelSpec, line, sequential, json } = parseArgs(
+    process.argv,
+  );
 
   if (!filePath) {
-    console.error("Usage: holefill <file> [<mini_file>] [<model>]");
+    console.error(USAGE);
     return process.exit(1);
   }
 
   const fs = yield* FileSystemService;
   const copilot = yield* CopilotService;
+  const trackUsage = (yield* UsageService).tracker("holefill");
   const resolver = yield* ModelResolver.make();
   const model = yield* resolver.resolve(modelSpec);
 
@@ -76,28 +230,117 @@ const main = Effect.gen(function* () {
   }
 
   miniCode = yield* expandInlineImports(miniCode, path.dirname(filePath), fs);
-  miniCode = leftAlignHoles(miniCode);
-  fileCode = leftAlignHoles(fileCode);
-
-  const prompt = miniCode.replace(".?.", "{:FILL_HERE:}");
-  const chat = new CopilotChatInstance(copilot, model);
-  const response = yield* chat.ask(prompt, {
-    system: SYSTEM_PROMPT,
-    stream: false,
-  });
 
-  const match = response.match(/<COMPLETION>([\s\S]*?)<\/COMPLETION>/);
-  let fill = match ? match[1] : response;
+  const holes = findHoles(fileCode);
+  if (findHoles(miniCode).length !== holes.length) {
+    console.error(
+      `Mini file has ${findHoles(miniCode).length} holes but ${filePath} has ${holes.length}`,
+    );
+    return process.exit(1);
+  }
+
+  const target = line === null ? undefined : nearestHole(holes, line);
+  const ids = target ? [target.id] : holes.map((hole) => hole.id);
+
+  const style = detectIndentStyle(fileCode);
+  const miniHoles = findHoles(miniCode);
+  const fills = new Map<number, string>();
+
+  const absPath = path.resolve(filePath);
+  const root = findProjectRoot(path.dirname(absPath));
+  const index = root
+    ? yield* Effect.sync(() => loadProjectIndex(root))
+    : emptyProjectIndex(path.dirname(absPath));
+  // --json promises to leave the disk untouched, index cache included.
+  if (!json) index.save();
+  const lsp = yield* LspService;
+  const client = yield* lsp.connect(absPath, index.root);
+  const hints = client
+    ? yield* typeHints(client, absPath, fileCode, holes, ids)
+    : [];
+  const hintTrailer = [
+    hints.length > 0
+      ? `\n\nTypes reported by the language server:\n${hints.join("\n")}`
+      : "",
+    importedExports(index, absPath),
+  ].join("");
+
+  const usage = { promptTokens: 0, completionTokens: 0 };
+  const requestFill = (batch: number[]) =>
+    Effect.gen(function* () {
+      const marked = markHoles(
+        fillHoles(miniCode, reindentFills(miniCode, fills)),
+        batch,
+      );
+      const indentation = miniHoles
+        .filter((hole) => batch.includes(hole.id))
+        .map((hole) => `- ${describeIndent(hole, style)}`)
+        .join("\n");
+      const prompt = `${marked}\n\n---\nIndentation (${style.char === "\t" ? "tabs" : "spaces"}):\n${indentation}${hintTrailer}`;
+      const chat = new CopilotChatInstance(copilot, model, {
+        usage: trackUsage,
+      });
+      // A cut-off completion would splice half a fill into the file.
+      const { content: response, usage: spent } = yield* chat.send(
+        [{ role: "user", content: prompt }],
+        {
+          system: SYSTEM_PROMPT,
+          stream: false,
+          continuations: DEFAULT_CONTINUATIONS,
+          requireComplete: true,
+        },
+      );
+      usage.promptTokens += spent.promptTokens;
+      usage.completionTokens += spent.completionTokens;
+      for (const [id, fill] of parseCompletions(response, batch)) {
+        fills.set(id, fill);
+      }
+    });
+
+  if (sequential) {
+    for (const id of ids) yield* requestFill([id]);
+  } else {
+    yield* requestFill(ids);
+  }
+
+  const missing = ids.filter((id) => !fills.has(id));
+  for (const id of missing) {
+    console.warn(`No completion returned for ${fillMarker(id)}; hole left as is`);
+  }
+
+  const finalFills = reindentFills(fileCode, fills);
+
+  if (json) {
+    writeReport({
+      tool: "holefill",
+      model: model.id,
+      usage,
+      changes: holes
+        .filter((hole) => finalFills.has(hole.id))
+        .map((hole) => ({
+          file: path.resolve(filePath),
+          kind: "edit",
+          range: rangeOf(fileCode, hole.offset, hole.offset + HOLE.length),
+          oldText: HOLE,
+          newText: finalFills.get(hole.id)!,
+        })),
+    });
+    return;
+  }
 
-  fill = fill.replace(/\$/g, "$$$$");
-  fill = fill.replace(/^\n+|\n+$/g, "");
-  fileCode = fileCode.replace(".?.", fill);
+  fileCode = fillHoles(fileCode, finalFills);
 
   yield* fs.writeFile(filePath, fileCode);
-  console.log(`✓ Filled hole in ${filePath}`);
+  const filled = ids.length - missing.length;
+  console.log(
+    `✓ Filled ${filled} hole${filled === 1 ? "" : "s"} in ${filePath}`,
+  );
 });
 
-runMain(main).catch((err) => {
+// Editors wait on holefill, so it gives up quickly.
+runMain(main.pipe(Effect.scoped), {
+  retry: { retries: 2, maxDelay: 5_000 },
+}).catch((err) => {
   console.error(err);
   process.exit(1);
 });
@@ -1,16 +1,79 @@
 #!/usr/bin/env bun
-import { execFile } from "child_process";
+import { exec, spawnSync } from "child_process";
 import * as Effect from "effect/Effect";
+import * as Option from "effect/Option";
+import { readFileSync, unlinkSync, writeFileSync } from "fs";
+import os from "os";
 import path from "path";
-import { promisify } from "util";
-import { fetchModels } from "../api/models.ts";
-import { CopilotChatInstance } from "../core/chat-instance.ts";
+import readline from "readline";
+import { fetchModels, type CopilotModel } from "../api/models.ts";
+import { splitBlocks } from "../core/block-splitter.ts";
+import {
+  chunkByBudget,
+  formatBudget,
+  inputBudget,
+  planBudget,
+} from "../core/budget-planner.ts";
+import {
+  CopilotChatInstance,
+  DEFAULT_CONTINUATIONS,
+} from "../core/chat-instance.ts";
+import {
+  createContextProviders,
+  findDependencies,
+  matchImportMarker,
+} from "../core/context-providers.ts";
+import {
+  applyHunks,
+  diffHunks,
+  formatHunk,
+  formatUnifiedDiff,
+  hunkText,
+  replaceHunkText,
+  type DiffHunk,
+} from "../core/diff.ts";
+import {
+  offsetToPosition,
+  rangeOf,
+  writeReport,
+  type ProposedChange,
+} from "../core/edit-report.ts";
+import {
+  applyTransaction,
+  projectPath,
+  restoreSnapshots,
+  snapshotFile,
+  type FileSnapshot,
+} from "../core/file-transaction.ts";
 import { ModelResolver } from "../core/model-resolver.ts";
-import { type FsError } from "../errors/index.ts";
+import {
+  emptyProjectIndex,
+  findProjectRoot,
+  loadProjectIndex,
+  type ProjectIndex,
+} from "../core/project-index.ts";
+import {
+  extractSummary,
+  parsePlan,
+  type PlanStep,
+} from "../core/refactor-plan.ts";
+import { graphDistances, rankBlocks } from "../core/relevance.ts";
+import { ParseError, type FsError } from "../errors/index.ts";
 import { runMain } from "../runtime.ts";
-import { CopilotService } from "../services/CopilotService.ts";
+import { CopilotService, type Copilot } from "../services/CopilotService.ts";
 import { FileSystemService, type FileSystem } from "../services/FileSystemService.ts";
-import { countTokens } from "../utils/tokenizer.ts";
+import { LspService, type LspClient } from "../services/LspService.ts";
+import { RefactorJournalService } from "../services/RefactorJournalService.ts";
+import {
+  UsageService,
+  type UsageTracker,
+} from "../services/UsageService.ts";
+import { highlightCode } from "../utils/syntax-highlighter.ts";
+import {
+  countTokens,
+  getTokenCounter,
+  type TokenCounter,
+} from "../utils/tokenizer.ts";
 
 const COMPACTING_PROMPT_TEMPLATE = `You're a context compactor.
 
@@ -75,24 +138,82 @@ Rules:
 - After all commands, append a <summary> ... </summary> block explaining the changes.
 - Return only the commands and the summary; no conversational filler.`;
 
-const IMPORT_PATTERNS = [
-  /^#\[(\.\/[^\]]+)\]$/,
-  /^--\[(\.\/[^\]]+)\]$/,
-  /^\/\/\[(\.\/[^\]]+)\]$/,
-  /^\s*import\s+.*?\s+from\s+['"](\.[^'"]+)['"]/,
-  /^\s*import\s+['"](\.[^'"]+)['"]/,
-  /^\s*export\s+.*?\s+from\s+['"](\.[^'"]+)['"]/,
-  /^\s*const\s+.*?\s*=\s*require\(['"](\.[^'"]+)['"]\)/,
-];
+const PLANNING_PROMPT_TEMPLATE = `
+You are an expert software engineer planning a large refactor.
+
+Project files (path, tokens, exported symbols):
+{FILES}
+
+Entry file {ENTRY}:
+{ENTRY_CONTENT}
+
+Task:
+{TASK}
+
+Split the task into ordered steps, each small enough to complete in one response.
+Emit one command per step, listing the files it edits or creates:
+
+<step files="src/types.ts, src/user-service.ts">
+What to change in those files.
+</step>
+
+Rules:
+- Paths are relative to the project root, separated by commas.
+- Keep each step to a few files; later steps see the results of earlier ones.
+- Change definitions before the code that uses them.
+- Return only the <step> commands; no conversational filler.`;
+
+const STEP_NOTE = `This is step {N} of {TOTAL} of a larger refactor whose overall task is:
+
+{TASK}
+
+Steps done so far:
+{DONE}
+
+Complete only this step: {STEP}
+Files of this step missing from the context do not exist yet; create them with <write> if the step needs them.`;
+
+const PASS_NOTE = `This is editing pass {N} of {TOTAL}. The context above is only part of the project; the other passes cover the rest. Only patch blocks shown here, and do not repeat work that belongs to blocks you cannot see.`;
+
+const fillEditingPrompt = (context: string, task: string) =>
+  EDITING_PROMPT_TEMPLATE.replace("{CONTEXT}", () => context).replace(
+    "{TASK}",
+    () => task,
+  );
+
+const fillCompactingPrompt = (context: string, task: string) =>
+  COMPACTING_PROMPT_TEMPLATE.replace("{CONTEXT}", () => context).replace(
+    "{TASK}",
+    () => task,
+  );
+
+const REPAIR_PROMPT_TEMPLATE = `
+Your edits were applied, but the verification command failed.
+
+Command: {COMMAND}
+
+Output:
+{OUTPUT}
+
+The files you changed now read as follows, split into new blocks:
+{CONTEXT}
+
+Fix the failure using the same commands as before (<patch block="ID">, <write>, <delete>).
+Patch only the blocks listed above, using their new ids.
+Return only the commands and a <summary>; no conversational filler.`;
 
 interface BlockEntry {
   id: number;
   file: string;
   content: string;
+  /** Character range of the block in the file's original contents. */
+  start: number;
+  end: number;
 }
 
 interface FileBlockGroup {
   file: string;
+  content: string;
   blocks: BlockEntry[];
 }
 
@@ -120,200 +241,853 @@ interface DeleteCommand {
 
 type EditCommand = PatchCommand | WriteCommand | DeleteCommand;
 
+interface BlockEdit {
+  start: number;
+  end: number;
+  oldText: string;
+  newText: string;
+}
+
+/** The net effect of a response's commands on one file. */
+interface FileChange {
+  file: string;
+  kind: "patch" | "write" | "delete";
+  /** Current contents, or null when the file does not exist yet. */
+  before: string | null;
+  /** Proposed contents, or null when the file is deleted. */
+  after: string | null;
+  edits: BlockEdit[];
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+/** Cut-off responses are continued, or rejected rather than half applied. */
+const COMPLETE = {
+  continuations: DEFAULT_CONTINUATIONS,
+  requireComplete: true,
+};
+/** Rough cost of a block's `!id` label and separators. */
+const BLOCK_MARKER_TOKENS = 4;
+const VERIFY_OUTPUT_LIMIT = 8000;
+
+const USAGE = `Usage: refactor <file> [<model>] [--json | --dry-run | --interactive]
+                [--plan] [--verify <command>] [--max-repairs N]
+       refactor --undo [<run-id>] [--force]
+
+Options:
+  --json             Print the proposed changes as JSON instead of writing files
+  --dry-run          Print a unified diff per file instead of writing files
+  --interactive      Review each file (or each hunk) before it is written
+  --plan             Plan the task as steps first, then edit one step per request
+  --verify <cmd>     Run <cmd> after applying; on failure ask the model to repair
+  --max-repairs N    Repair attempts before rolling back (default: ${DEFAULT_MAX_REPAIRS})
+  --undo [id]        Restore the files of a run (default: the latest run here)
+  --force            With --undo, also overwrite files edited since the run
+`;
+
+interface ParsedArgs {
+  filePath: string | undefined;
+  modelSpec: string;
+  json: boolean;
+  dryRun: boolean;
+  interactive: boolean;
+  planMode: boolean;
+  verifyCommand: string | null;
+  maxRepairs: number;
+  /** Set when --undo is given; null means the latest run. */
+  undo: string | null | undefined;
+  force: boolean;
+}
+
+const parseArgs = (argv: string[]): ParsedArgs => {
+  const args = argv.slice(2);
+
+  const verifyIndex = args.indexOf("--verify");
+  let verifyCommand: string | null = null;
+  if (verifyIndex !== -1) {
+    verifyCommand = args[verifyIndex + 1] ?? "";
+    if (!verifyCommand.trim()) {
+      console.error("Error: --verify expects a command\n");
+      console.error(USAGE);
+      process.exit(1);
+    }
+    args.splice(verifyIndex, 2);
+  }
+
+  const repairsIndex = args.indexOf("--max-repairs");
+  let maxRepairs = DEFAULT_MAX_REPAIRS;
+  if (repairsIndex !== -1) {
+    maxRepairs = Number(args[repairsIndex + 1]);
+    if (!Number.isInteger(maxRepairs) || maxRepairs < 0) {
+      console.error("Error: --max-repairs expects a non-negative integer\n");
+      console.error(USAGE);
+      process.exit(1);
+    }
+    args.splice(repairsIndex, 2);
+  }
+
+  const undoIndex = args.indexOf("--undo");
+  let undo: string | null | undefined;
+  if (undoIndex !== -1) {
+    const candidate = args[undoIndex + 1];
+    const hasId = candidate !== undefined && /^\d+$/.test(candidate);
+    undo = hasId ? candidate : null;
+    args.splice(undoIndex, hasId ? 2 : 1);
+  }
+
+  const positional = args.filter((a) => !a.startsWith("--"));
+  return {
+    filePath: positional[0],
+    modelSpec: positional[1] || "g",
+    json: args.includes("--json"),
+    dryRun: args.includes("--dry-run"),
+    interactive: args.includes("--interactive"),
+    planMode: args.includes("--plan"),
+    verifyCommand,
+    maxRepairs,
+    undo,
+    force: args.includes("--force"),
+  };
+};
+
+/**
+ * Restores the pre-images journaled for a run: the given one, or the latest
+ * in this project. Files edited since the run are only overwritten with
+ * `force`.
+ */
+const undoRun = (runId: string | null, force: boolean) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystemService;
+    const journal = yield* RefactorJournalService;
+
+    const cwd = findProjectRoot(process.cwd()) ?? process.cwd();
+    const run = runId
+      ? yield* journal.load(runId)
+      : yield* journal.latest(cwd);
+    if (!run) {
+      console.error(`No refactor run to undo in ${cwd}`);
+      return process.exit(1);
+    }
+    if (run.undoneAt !== undefined) {
+      console.error(`Run ${run.id} was already undone`);
+      return process.exit(1);
+    }
+
+    const edited: string[] = [];
+    for (const file of run.files) {
+      const current = yield* snapshotFile(fs, file.file);
+      if (current.contents !== file.after) edited.push(file.file);
+    }
+    if (edited.length > 0) {
+      const list = edited.map((file) => `  ${file}`).join("\n");
+      if (!force) {
+        console.error(
+          `Error: files changed after run ${run.id}:\n${list}\n` +
+            "Undoing would overwrite those edits; pass --force to do it anyway",
+        );
+        return process.exit(1);
+      }
+      console.warn(
+        `warning: overwriting files changed after run ${run.id}:\n${list}`,
+      );
+    }
+
+    yield* applyTransaction(
+      fs,
+      run.files.map((file) => ({ file: file.file, contents: file.before })),
+    );
+    yield* journal.markUndone(run.id);
+
+    console.log(`✓ Undid run ${run.id}`);
+    console.log(
+      run.files
+        .map((file) => `${file.before === null ? "removed" : "restored"} ${file.file}`)
+        .join("\n"),
+    );
+  });
+
 const main = Effect.gen(function* () {
-  const filePath = process.argv[2];
-  const modelSpec = process.argv[3] || "g";
+  const {
+    filePath,
+    modelSpec,
+    json,
+    dryRun,
+    interactive,
+    planMode,
+    verifyCommand,
+    maxRepairs,
+    undo,
+    force,
+  } = parseArgs(process.argv);
+
+  if (undo !== undefined) {
+    return yield* undoRun(undo, force);
+  }
 
   if (!filePath) {
-    console.error("Usage: refactor <file> [<model>]");
+    console.error(USAGE);
     return process.exit(1);
   }
 
+  // In JSON mode stdout carries only the report, so progress goes to stderr.
+  const info = (message: string) =>
+    (json ? process.stderr : process.stdout).write(message + "\n");
+
   const fs = yield* FileSystemService;
   const copilot = yield* CopilotService;
+  const lsp = yield* LspService;
+
+  // Paths in prompts and the journal are relative to the repository root, so
+  // running from a subdirectory still sees importers elsewhere in the project.
+  const projectRoot = findProjectRoot(process.cwd());
+  const root = projectRoot ?? process.cwd();
+  const absEntryPath = path.resolve(filePath);
 
-  const root = process.cwd();
-  const absEntryPath = path.resolve(root, filePath);
+  // Semantic context when a language server is installed for the entry file.
+  const client = yield* lsp.connect(absEntryPath, root);
+  if (client) info(`Language server: ${client.config.command[0]}`);
 
   // 1. Read entry file and extract prompt
   const entryContent = yield* fs.readFile(absEntryPath);
   const { body: fileBody, prompt: taskPrompt } =
     extractPromptSections(entryContent);
 
-  // 2. Collect context (recursive imports)
-  const files = yield* collectContext(fs, absEntryPath, fileBody, root);
-
-  // 2b. Find referrers (reverse dependencies) using ripgrep
-  const referrers = yield* findReferrers(fs, absEntryPath, root);
+  // 2. Collect context (recursive imports and definitions)
+  const index = projectRoot
+    ? yield* Effect.sync(() => loadProjectIndex(projectRoot))
+    : emptyProjectIndex(root);
+  const files = yield* collectContext(
+    fs,
+    absEntryPath,
+    fileBody,
+    index,
+    client,
+  );
+
+  // 2b. Find referrers (reverse dependencies)
+  const referrers = yield* findReferrers(fs, absEntryPath, index, client);
 
   for (const [relPath, content] of referrers) {
     if (!files.has(relPath)) {
       files.set(relPath, content);
-      console.log(`Included referrer: ${relPath}`);
+      info(`Included referrer: ${relPath}`);
     }
   }
 
-  // 3. Build blocks
-  const blockState = buildBlockState(files);
-  const fullContext = formatBlocks(blockState);
-  const totalTokens = countTokens(fullContext + "\n" + taskPrompt);
-
-  console.log(`Files: ${files.size}`);
-  console.log(`Total tokens: ${totalTokens}`);
-
-  // 4. Resolve model
-  console.log("Resolving model...");
+  // 3. Resolve model (its tokenizer drives every token count below)
+  info("Resolving model...");
   const resolver = yield* ModelResolver.make();
-  console.log("Resolver created.");
+  info("Resolver created.");
   const model = yield* resolver.resolve(modelSpec);
-  console.log(`Model resolved: ${model.id}`);
-
-  // 5. Compacting Phase (if needed)
-  let contextToUse = fullContext;
-  const shouldCompact = files.size > 1 && totalTokens >= 32000;
-
-  if (shouldCompact) {
-    console.log("\n[Compacting phase...]");
-
-    // Try to find a faster/cheaper model for compaction
-    const allModels = yield* fetchModels;
-    const compactorCandidates = ["mini", "turbo", "haiku", "flash"];
-    const fastModel =
-      allModels.find((m) =>
-        compactorCandidates.some((c) => m.id.toLowerCase().includes(c)),
-      ) || model;
-
-    console.log(`Using compactor model: ${fastModel.id}`);
-
-    const chat = new CopilotChatInstance(copilot, fastModel);
-    const compactingPrompt = COMPACTING_PROMPT_TEMPLATE.replace(
-      "{CONTEXT}",
-      fullContext,
-    ).replace("{TASK}", taskPrompt);
-
-    const response = yield* chat.ask(compactingPrompt, { stream: true });
-
-    const omittedIds = parseOmitCommands(response);
-    console.log(`\nOmitted ${omittedIds.size} irrelevant blocks`);
-    contextToUse = formatBlocks(blockState, omittedIds);
-  } else {
-    if (files.size <= 1) console.log("Skipping compaction: single file");
-    else console.log("Skipping compaction: < 32k tokens");
+  info(`Model resolved: ${model.id}`);
+
+  // 4. Measure the context; file counts come from the project index
+  const counter = getTokenCounter(model);
+  const entryRelPath = path.relative(root, absEntryPath);
+  const totalTokens = [...files.keys()].reduce(
+    (sum, relPath) =>
+      sum +
+      (relPath === entryRelPath
+        ? counter.count(fileBody)
+        : index.tokens(path.resolve(root, relPath), counter)),
+    0,
+  );
+  // --json and --dry-run leave the disk untouched, index cache included.
+  if (!json && !dryRun) index.save();
+
+  info(`Files: ${files.size}`);
+  info(`Total tokens: ${totalTokens} (${counter.name})`);
+
+  // 5. Edit in one request (split into passes if needed), or step by step
+  // Every request of the run counts toward the JSON report's usage:
+  // compaction, planning and continuations included.
+  const usage = { promptTokens: 0, completionTokens: 0 };
+  const ledger = (yield* UsageService).tracker("refactor");
+  const trackUsage: UsageTracker = (requestModel, spent) =>
+    Effect.sync(() => {
+      usage.promptTokens += spent.promptTokens;
+      usage.completionTokens += spent.completionTokens;
+    }).pipe(Effect.zipRight(ledger(requestModel, spent)));
+  const setup: EditingSetup = {
+    copilot,
+    trackUsage,
+    fs,
+    index,
+    model,
+    counter,
+    files,
+    entryRelPath,
+    taskPrompt,
+    stream: !json,
+    info,
+  };
+  const editing = planMode
+    ? yield* editByPlan(setup)
+    : yield* editInOnePass(setup, totalTokens);
+  const { changes, chat } = editing;
+  const response = editing.responses.join("\n\n");
+
+  // 6. Apply changes
+  if (json) {
+    writeReport({
+      tool: "refactor",
+      model: model.id,
+      usage,
+      changes: toProposedChanges(changes, root, {
+        file: entryRelPath,
+        content: entryContent,
+      }),
+    });
+    return;
+  }
+
+  if (dryRun) {
+    for (const change of changes) {
+      yield* Effect.promise(() => showDiff(changeDiff(change)));
+    }
+    return;
   }
 
-  // 6. Editing Phase
-  console.log("\n[Editing phase...]");
-  const editingPrompt = EDITING_PROMPT_TEMPLATE.replace(
-    "{CONTEXT}",
-    contextToUse,
-  ).replace("{TASK}", taskPrompt);
+  const review = (proposed: FileChange[]) =>
+    interactive
+      ? Effect.promise(() => reviewChanges(proposed))
+      : Effect.succeed(proposed);
+
+  // Earliest snapshot of every file touched, by absolute path, for rollback
+  // and the journal.
+  const touched = new Map<string, FileSnapshot>();
+  const messages: string[] = [];
+  const apply = (approved: FileChange[]) =>
+    Effect.gen(function* () {
+      const result = yield* applyChanges(approved, fs, root);
+      for (const snapshot of result.snapshots) {
+        if (!touched.has(snapshot.file)) touched.set(snapshot.file, snapshot);
+      }
+      messages.push(...result.messages);
+    });
+
+  yield* apply(yield* review(changes));
+  if (client) yield* reportDiagnostics(fs, client, [...touched.keys()], root);
 
-  const chat = new CopilotChatInstance(copilot, model);
-  const response = yield* chat.ask(editingPrompt, { stream: true });
+  // 7. Verify, feeding failures back to the same chat for repairs
+  const responses = [response];
+  if (verifyCommand && touched.size > 0) {
+    let nextId = editing.nextId;
+    let result = yield* runVerify(verifyCommand, process.cwd());
+
+    for (let attempt = 1; !result.ok && attempt <= maxRepairs; attempt++) {
+      info(`\n[Verification failed; repair attempt ${attempt}/${maxRepairs}...]`);
+
+      const current = new Map<string, string>();
+      for (const file of touched.keys()) {
+        if (yield* fs.exists(file)) {
+          current.set(path.relative(root, file), yield* fs.readFile(file));
+        }
+      }
+      const repairState = buildBlockState(current, nextId);
+      nextId += repairState.blockMap.size;
+
+      const repairPrompt = REPAIR_PROMPT_TEMPLATE.replace(
+        "{COMMAND}",
+        () => verifyCommand,
+      )
+        .replace("{OUTPUT}", () => result.output)
+        .replace("{CONTEXT}", () => formatBlocks(repairState));
+      const repairResponse = yield* chat.ask(repairPrompt, {
+        stream: true,
+        ...COMPLETE,
+      });
+      responses.push(repairResponse);
+
+      // A repair that cannot be applied counts as a failed attempt; the
+      // final rollback still covers everything applied before it.
+      yield* planChanges(
+        parseCommands(repairResponse),
+        repairState,
+        fs,
+        root,
+      ).pipe(
+        Effect.flatMap(review),
+        Effect.flatMap(apply),
+        Effect.catchAll((err) =>
+          Effect.sync(() => info(`Could not apply repair: ${err.message}`)),
+        ),
+      );
+      result = yield* runVerify(verifyCommand, process.cwd());
+    }
 
-  // 7. Apply changes
-  const commands = parseCommands(response);
-  const messages = yield* applyCommands(commands, blockState, fs);
+    if (!result.ok) {
+      info(result.output);
+      yield* restoreSnapshots(fs, [...touched.values()]);
+      console.error(
+        `\n✗ Verification still failing after ${maxRepairs} repair attempt(s); rolled back all changes`,
+      );
+      return process.exit(1);
+    }
+    info("\n✓ Verification passed");
+  }
 
-  console.log("\n✓ Refactor complete");
+  info("\n✓ Refactor complete");
   if (messages.length > 0) {
-    console.log(messages.join("\n"));
+    info(messages.join("\n"));
+
+    const journal = yield* RefactorJournalService;
+    const files = yield* Effect.forEach([...touched.values()], (before) =>
+      snapshotFile(fs, before.file).pipe(
+        Effect.map((after) => ({
+          file: path.resolve(root, before.file),
+          before: before.contents,
+          after: after.contents,
+        })),
+      ),
+    );
+    const run = yield* journal.record({
+      cwd: root,
+      model: model.id,
+      prompt: taskPrompt,
+      response: responses.join("\n\n"),
+      files,
+    });
+    info(`Undo with: refactor --undo ${run.id}`);
   }
 });
 
-// --- Reverse Dependency Search ---
+// --- Editing ---
+
+/** What the editing phase needs from the run. */
+interface EditingSetup {
+  copilot: Copilot;
+  trackUsage: UsageTracker;
+  fs: FileSystem;
+  index: ProjectIndex;
+  model: CopilotModel;
+  counter: TokenCounter;
+  /** Collected files by root-relative path; the entry file without its prompt. */
+  files: Map<string, string>;
+  entryRelPath: string;
+  taskPrompt: string;
+  stream: boolean;
+  info: (message: string) => void;
+}
 
-const execFileAsync = promisify(execFile);
+interface EditingResult {
+  changes: FileChange[];
+  responses: string[];
+  /** Chat of the last editing request; repairs continue it. */
+  chat: CopilotChatInstance;
+  /** First block id the editing phase left unused. */
+  nextId: number;
+}
 
-function findReferrers(
-  fs: FileSystem,
-  targetAbsPath: string,
-  root: string,
-) {
+/**
+ * Edits the whole task in one request, after ranking and compacting the
+ * context when it does not fit, or in several passes over disjoint blocks
+ * when even that is too much.
+ */
+function editInOnePass(setup: EditingSetup, totalTokens: number) {
   return Effect.gen(function* () {
-    const referrers = new Map<string, string>();
-    const filename = path.basename(targetAbsPath);
-    const nameNoExt = filename.replace(/\.[^/.]+$/, "");
-
-    const regex = `(from|import|require).*['"].*${nameNoExt}['"]`;
-
-    yield* Effect.tryPromise({
-        try: () => execFileAsync("rg", ["--version"]),
-        catch: () => new Error("rg not found"),
-      }).pipe(
-        Effect.flatMap(() =>
-          Effect.tryPromise({
-            try: () =>
-              execFileAsync("rg", ["-l", regex, "."], {
-                cwd: root,
-                maxBuffer: 1024 * 1024 * 10,
-              }),
-            catch: () => new Error("rg failed"),
-          }),
-        ),
-        Effect.map(({ stdout }) => {
-          const lines = stdout
-            .split("\n")
-            .map((l) => l.trim())
-            .filter((l) => l);
-          return lines;
-        }),
-        Effect.flatMap((lines) =>
-          Effect.forEach(lines, (relPath) =>
-            Effect.gen(function* () {
-              const absPath = path.resolve(root, relPath);
-              if (absPath === targetAbsPath) return;
-
-              if (
-                !relPath.match(/\.(ts|js|tsx|jsx|py|rb|go|rs|cpp|h|c|java)$/)
-              )
-                return;
-
-              const content = yield* fs.readFile(absPath);
-              referrers.set(relPath, content);
-            }),
-          ),
-        ),
-        Effect.catchAll(() => Effect.void),
+    const { copilot, fs, index, model, counter, files } = setup;
+    const { entryRelPath, taskPrompt, info } = setup;
+    const root = index.root;
+
+    const blockState = buildBlockState(files);
+    const fullContext = formatBlocks(blockState);
+
+    // Plan the token budget; rank blocks locally when the context is too big
+    const budgetInput = {
+      model,
+      instructionTokens: counter.count(fillEditingPrompt("", taskPrompt)),
+      compactorInstructionTokens: counter.count(
+        fillCompactingPrompt("", taskPrompt),
+      ),
+      contextTokens: totalTokens,
+      rankedTokens: totalTokens,
+      editableTokens: counter.count(files.get(entryRelPath) ?? ""),
+    };
+    let plan = planBudget(budgetInput);
+    let omitted = new Set<number>();
+    let compactor: CopilotModel | undefined;
+
+    if (plan.strategy !== "full" && files.size > 1) {
+      const distances = graphDistances(entryRelPath, (relPath) => {
+        const absPath = path.resolve(root, relPath);
+        return [...index.importsOf(absPath), ...index.importersOf(absPath)]
+          .map((dep) => path.relative(root, dep))
+          .filter((dep) => files.has(dep));
+      });
+      const ranked = rankBlocks([...blockState.blockMap.values()], {
+        task: taskPrompt,
+        entryFile: entryRelPath,
+        distances,
+      });
+      omitted = new Set(
+        ranked.filter(({ relevant }) => !relevant).map(({ block }) => block.id),
+      );
+      info(
+        `Ranked ${ranked.length} blocks locally: dropped ${omitted.size} unrelated to the task`,
       );
 
-    return referrers;
+      // Try to find a faster/cheaper model for compaction
+      const allModels = yield* fetchModels;
+      compactor = ModelResolver.findFastModel(allModels) || model;
+      plan = planBudget({
+        ...budgetInput,
+        compactor,
+        rankedTokens: countTokens(formatBlocks(blockState, omitted), model),
+      });
+    }
+    info(formatBudget(plan));
+
+    // Compacting phase, when local ranking was not enough
+    if (plan.strategy === "llm" && compactor) {
+      info("\n[Compacting phase...]");
+      info(`Using compactor model: ${compactor.id}`);
+
+      const compactorChat = new CopilotChatInstance(copilot, compactor, {
+        usage: setup.trackUsage,
+      });
+      const compactingResponse = yield* compactorChat.ask(
+        fillCompactingPrompt(formatBlocks(blockState, omitted), taskPrompt),
+        { stream: setup.stream, continuations: DEFAULT_CONTINUATIONS },
+      );
+
+      const omittedIds = parseOmitCommands(compactingResponse);
+      info(`\nOmitted ${omittedIds.size} irrelevant blocks`);
+      omitted = new Set([...omitted, ...omittedIds]);
+    } else if (plan.strategy === "full") {
+      info("Skipping compaction: context fits the budget");
+    }
+
+    // Editing phase, split into passes when one request cannot hold it all
+    const keptBlocks = [...blockState.blockMap.values()].filter(
+      (block) => !omitted.has(block.id),
+    );
+    const keptContext =
+      plan.strategy === "full" ? fullContext : formatBlocks(blockState, omitted);
+    // Model compaction may still leave more than one request can hold.
+    const needsPasses =
+      plan.strategy === "multi-pass" ||
+      (plan.strategy === "llm" &&
+        countTokens(keptContext, model) > plan.contextBudget);
+    const passes = needsPasses
+      ? chunkByBudget(
+          keptBlocks,
+          (block) => counter.count(block.content) + BLOCK_MARKER_TOKENS,
+          plan.passBudget,
+        )
+      : [keptBlocks];
+
+    const newChat = () =>
+      new CopilotChatInstance(copilot, model, { usage: setup.trackUsage });
+    let chat = newChat();
+    const editingResponses: string[] = [];
+    for (const [i, pass] of passes.entries()) {
+      info(
+        passes.length > 1
+          ? `\n[Editing pass ${i + 1}/${passes.length}...]`
+          : "\n[Editing phase...]",
+      );
+      const visible = new Set(pass.map((block) => block.id));
+      const context =
+        passes.length > 1
+          ? formatBlocks(
+              blockState,
+              new Set(
+                [...blockState.blockMap.keys()].filter((id) => !visible.has(id)),
+              ),
+            )
+          : keptContext;
+      const task =
+        passes.length > 1
+          ? `${taskPrompt}\n\n${PASS_NOTE.replace("{N}", String(i + 1)).replace("{TOTAL}", String(passes.length))}`
+          : taskPrompt;
+      const prompt = fillEditingPrompt(context, task);
+      // Each pass starts a fresh chat; repairs continue the last one.
+      if (i > 0) chat = newChat();
+      editingResponses.push(
+        yield* chat.ask(prompt, { stream: setup.stream, ...COMPLETE }),
+      );
+    }
+    const changes = yield* planChanges(
+      parseCommands(editingResponses.join("\n\n")),
+      blockState,
+      fs,
+      setup.index.root,
+    );
+    return {
+      changes,
+      responses: editingResponses,
+      chat,
+      nextId: blockState.blockMap.size,
+    } satisfies EditingResult;
   });
 }
 
-// --- Context Collection ---
+const fillPlanningPrompt = (setup: EditingSetup) =>
+  PLANNING_PROMPT_TEMPLATE.replace("{FILES}", () => describeFiles(setup))
+    .replace("{ENTRY}", () => setup.entryRelPath)
+    .replace(
+      "{ENTRY_CONTENT}",
+      () => setup.files.get(setup.entryRelPath) ?? "",
+    )
+    .replace("{TASK}", () => setup.taskPrompt);
+
+/** One line per collected file: its path, size and exported symbols. */
+function describeFiles({ files, index, counter }: EditingSetup): string {
+  return [...files.entries()]
+    .map(([file, content]) => {
+      const exports = index.get(path.resolve(index.root, file))?.exports ?? [];
+      const names = exports.length > 0 ? `: ${exports.join(", ")}` : "";
+      return `${file} (${counter.count(content)} tokens)${names}`;
+    })
+    .join("\n");
+}
+
+function stepTask(
+  taskPrompt: string,
+  steps: PlanStep[],
+  index: number,
+  summaries: string[],
+): string {
+  const done = summaries.map((summary, i) => `${i + 1}. ${summary}`);
+  return STEP_NOTE.replace("{N}", String(index + 1))
+    .replace("{TOTAL}", String(steps.length))
+    .replace("{TASK}", () => taskPrompt)
+    .replace("{DONE}", () => (done.length > 0 ? done.join("\n") : "(none)"))
+    .replace("{STEP}", () => steps[index].task);
+}
+
+/**
+ * The step's files as the earlier steps left them, followed by the collected
+ * files they import while `budget` lasts. Step files outside the collected
+ * context are read from disk and remembered in `current`.
+ */
+function stepContext(
+  setup: EditingSetup,
+  current: Map<string, string | null>,
+  step: PlanStep,
+  budget: number,
+) {
+  return Effect.gen(function* () {
+    const { fs, index, counter } = setup;
+    const context = new Map<string, string>();
 
-function matchImportPath(line: string): string | null {
-  for (const pattern of IMPORT_PATTERNS) {
-    const match = line.match(pattern);
-    if (match && match[1]) {
-      return match[1];
+    for (const file of step.files) {
+      if (!current.has(file)) {
+        const absPath = path.resolve(index.root, file);
+        current.set(
+          file,
+          (yield* fs.exists(absPath)) ? yield* fs.readFile(absPath) : null,
+        );
+      }
+      const content = current.get(file);
+      if (content != null) context.set(file, content);
     }
-  }
-  return null;
+
+    let used = [...context.values()].reduce(
+      (sum, content) => sum + counter.count(content),
+      0,
+    );
+    const imports = [...context.keys()].flatMap((file) =>
+      index
+        .importsOf(path.resolve(index.root, file))
+        .map((dep) => path.relative(index.root, dep)),
+    );
+    for (const dep of new Set(imports)) {
+      const content = current.get(dep);
+      if (context.has(dep) || content == null) continue;
+      const cost = counter.count(content);
+      if (used + cost > budget) continue;
+      context.set(dep, content);
+      used += cost;
+    }
+    return context;
+  });
+}
+
+/** Folds a later step's change to a file into the change so far. */
+function mergeChange(
+  earlier: FileChange | undefined,
+  later: FileChange,
+): FileChange {
+  if (!earlier) return later;
+  // Patches of different steps refer to different contents, so the merged
+  // change replaces the file as a whole.
+  return {
+    file: later.file,
+    kind: later.after === null ? "delete" : "write",
+    before: earlier.before,
+    after: later.after,
+    edits: [],
+  };
 }
 
-function findImports(content: string): string[] {
-  const imports = new Set<string>();
-  const lines = content.split(/\r?\n/);
-  for (const line of lines) {
-    const match = matchImportPath(line);
-    if (match) {
-      imports.add(match);
+/**
+ * Asks the model for a step plan, then runs every step as its own editing
+ * request over blocks rebuilt from the files as the earlier steps left them.
+ * The steps' changes are combined into one change per file.
+ */
+function editByPlan(setup: EditingSetup) {
+  return Effect.gen(function* () {
+    const { copilot, fs, model, counter, taskPrompt, info } = setup;
+
+    info("\n[Planning phase...]");
+    const planningPrompt = fillPlanningPrompt(setup);
+    const newChat = () =>
+      new CopilotChatInstance(copilot, model, { usage: setup.trackUsage });
+    const planResponse = yield* newChat().ask(
+      planningPrompt,
+      { stream: setup.stream, ...COMPLETE },
+    );
+    const steps = parsePlan(planResponse);
+    if (steps.length === 0) {
+      return yield* Effect.fail(
+        new ParseError("The plan contains no <step> commands"),
+      );
     }
-  }
-  return Array.from(imports);
+    info(
+      `\nPlan (${steps.length} steps):\n` +
+        steps
+          .map(
+            (step, i) => `  ${i + 1}. ${step.task} [${step.files.join(", ")}]`,
+          )
+          .join("\n"),
+    );
+
+    // Contents after the steps so far; null when deleted or missing.
+    const current = new Map<string, string | null>(setup.files);
+    const combined = new Map<string, FileChange>();
+    const responses = [planResponse];
+    const summaries: string[] = [];
+    let chat = newChat();
+    let nextId = 0;
+
+    for (const [i, step] of steps.entries()) {
+      info(`\n[Step ${i + 1}/${steps.length}: ${step.task}]`);
+      const task = stepTask(taskPrompt, steps, i, summaries);
+      const budget = inputBudget(
+        model,
+        counter.count(fillEditingPrompt("", task)),
+      );
+      const state = buildBlockState(
+        yield* stepContext(setup, current, step, budget),
+        nextId,
+      );
+      nextId += state.blockMap.size;
+
+      const prompt = fillEditingPrompt(formatBlocks(state), task);
+      chat = newChat();
+      const stepResponse = yield* chat.ask(prompt, {
+        stream: setup.stream,
+        ...COMPLETE,
+      });
+      responses.push(stepResponse);
+
+      const stepChanges = yield* planChanges(
+        parseCommands(stepResponse),
+        state,
+        fs,
+        setup.index.root,
+      );
+      for (const change of stepChanges) {
+        current.set(change.file, change.after);
+        const merged = mergeChange(combined.get(change.file), change);
+        // A file created and deleted again by the plan needs no change.
+        if (merged.before === null && merged.after === null) {
+          combined.delete(change.file);
+          continue;
+        }
+        combined.set(change.file, merged);
+      }
+      summaries.push(extractSummary(stepResponse) || "(no summary)");
+      info(
+        `✓ Step ${i + 1}/${steps.length}: ${stepChanges.length} file(s) changed`,
+      );
+    }
+
+    info(
+      "\nSummary:\n" +
+        summaries.map((summary, i) => `${i + 1}. ${summary}`).join("\n"),
+    );
+    return {
+      changes: [...combined.values()],
+      responses,
+      chat,
+      nextId,
+    } satisfies EditingResult;
+  });
 }
 
+// --- Verification ---
+
+interface VerifyResult {
+  ok: boolean;
+  output: string;
+}
+
+/** Runs the verify command through the shell; output is cut to its tail. */
+function runVerify(command: string, cwd: string) {
+  return Effect.async<VerifyResult>((resume) => {
+    exec(
+      command,
+      { cwd, maxBuffer: 64 * 1024 * 1024 },
+      (err, stdout, stderr) => {
+        const output = `${stdout}${stderr}`.trim();
+        resume(
+          Effect.succeed({
+            ok: !err,
+            output:
+              output.length > VERIFY_OUTPUT_LIMIT
+                ? "...\n" + output.slice(-VERIFY_OUTPUT_LIMIT)
+                : output,
+          }),
+        );
+      },
+    );
+  });
+}
+
+// --- Reverse Dependency Search ---
+
+function findReferrers(
+  fs: FileSystem,
+  targetAbsPath: string,
+  index: ProjectIndex,
+  client?: LspClient,
+) {
+  return Effect.gen(function* () {
+    const referrers = new Map<string, string>();
+    const root = index.root;
+
+    // References to the file's symbols; the import index is the fallback.
+    const semantic = client
+      ? yield* symbolReferrers(client, targetAbsPath, root).pipe(Effect.option)
+      : Option.none();
+    const importers = Option.isSome(semantic)
+      ? semantic.value
+      : index.importersOf(targetAbsPath);
+
+    for (const absPath of importers) {
+      if (absPath === targetAbsPath) continue;
+      referrers.set(path.relative(root, absPath), yield* fs.readFile(absPath));
+    }
+    return referrers;
+  });
+}
+
+// --- Context Collection ---
+
 function collectContext(
   fs: FileSystem,
   entryFile: string,
   entryContent: string,
-  root: string,
+  index: ProjectIndex,
+  client?: LspClient,
 ) {
   return Effect.gen(function* () {
     const context = new Map<string, string>();
     const visited = new Set<string>();
+    const root = index.root;
+    const providers = createContextProviders(root);
 
     const visit = (
       currentPath: string,
@@ -356,18 +1130,143 @@ function collectContext(
         const relPath = path.relative(root, finalPath);
         context.set(relPath, text!);
 
-        const imports = findImports(text!);
-        for (const importPath of imports) {
-          const nextPath = path.resolve(path.dirname(finalPath), importPath);
-          yield* visit(nextPath, null);
+        // Files outside the index (ignored, too large) are parsed directly.
+        const dependencies = index.get(finalPath)
+          ? index.importsOf(finalPath)
+          : findDependencies(providers, finalPath, text!);
+        for (const dependency of dependencies) {
+          yield* visit(dependency, null);
         }
       });
 
     yield* visit(entryFile, entryContent);
+    if (client) {
+      for (const file of yield* definitionFiles(fs, client, entryFile, root)) {
+        yield* visit(file, null);
+      }
+    }
     return context;
   });
 }
 
+// --- Language Server Context ---
+
+// Each lookup is a round trip to the server; the first identifiers of a file
+// (its imports, mostly) name nearly all the files worth including.
+const MAX_DEFINITION_LOOKUPS = 32;
+const LSP_CONCURRENCY = 8;
+
+// Keywords of the supported languages, which have no definition to look up.
+const KEYWORDS = new Set(
+  (
+    "as async await break case catch class const continue def default do " +
+    "else enum export extends false fn for from func function go if impl " +
+    "import in interface let match mod new null package pub return self " +
+    "static struct super switch this throw true try type typeof use var " +
+    "void while"
+  ).split(" "),
+);
+
+const isProjectFile = (file: string, root: string) =>
+  !path.relative(root, file).startsWith("..") &&
+  !file.split(path.sep).includes("node_modules");
+
+/**
+ * Project files defining the identifiers used in `file`, which catches
+ * aliased and re-exported imports the providers cannot follow. Lookups that
+ * fail are skipped.
+ */
+function definitionFiles(
+  fs: FileSystem,
+  client: LspClient,
+  file: string,
+  root: string,
+) {
+  return Effect.gen(function* () {
+    const content = yield* fs.readFile(file);
+    yield* client.openDocument(file, content);
+    const firstUses = new Map<string, number>();
+    for (const match of content.matchAll(/\b[A-Za-z_$][\w$]*\b/g)) {
+      if (!firstUses.has(match[0]) && !KEYWORDS.has(match[0])) {
+        firstUses.set(match[0], match.index);
+      }
+    }
+    const offsets = [...firstUses.values()].slice(0, MAX_DEFINITION_LOOKUPS);
+
+    const locations = yield* Effect.forEach(
+      offsets,
+      (offset) =>
+        client
+          .definition(file, offsetToPosition(content, offset))
+          .pipe(Effect.orElseSucceed(() => [])),
+      { concurrency: LSP_CONCURRENCY },
+    );
+    return [
+      ...new Set(
+        locations
+          .flat()
+          .map((location) => location.file)
+          .filter((def) => def !== file && isProjectFile(def, root)),
+      ),
+    ];
+  }).pipe(Effect.orElseSucceed((): string[] => []));
+}
+
+/** Project files referencing any top-level symbol of `file`. */
+function symbolReferrers(client: LspClient, file: string, root: string) {
+  return Effect.gen(function* () {
+    const symbols = yield* client.documentSymbols(file);
+    const locations = yield* Effect.forEach(
+      symbols,
+      (symbol) => client.references(file, symbol.selectionRange.start),
+      { concurrency: LSP_CONCURRENCY },
+    );
+    return [
+      ...new Set(
+        locations
+          .flat()
+          .map((location) => location.file)
+          .filter((ref) => ref !== file && isProjectFile(ref, root)),
+      ),
+    ];
+  });
+}
+
+/** Prints the errors the language server reports for the edited files. */
+function reportDiagnostics(
+  fs: FileSystem,
+  client: LspClient,
+  files: string[],
+  root: string,
+) {
+  return Effect.forEach(
+    files
+      .map((file) => path.resolve(root, file))
+      .filter((file) => client.config.extensions.includes(path.extname(file))),
+    (file) =>
+      Effect.gen(function* () {
+        yield* client.openDocument(file, yield* fs.readFile(file));
+        return (yield* client.diagnostics(file))
+          .filter((diagnostic) => diagnostic.severity === 1)
+          .map(
+            (diagnostic) =>
+              `${path.relative(root, file)}:${diagnostic.range.start.line + 1}: ${diagnostic.message}`,
+          );
+      }).pipe(Effect.orElseSucceed((): string[] => [])),
+  ).pipe(
+    Effect.map((errors) => errors.flat()),
+    Effect.tap((errors) =>
+      Effect.sync(() => {
+        if (errors.length === 0) return;
+        console.warn(
+          `\nLanguage server reports ${errors.length} error(s) in edited files:`,
+        );
+        console.warn(errors.join("\n"));
+      }),
+    ),
+  );
+}
+
 // --- Prompt Extraction ---
 
 function extractPromptSections(raw: string): { body: string; prompt: string } {
@@ -389,7 +1288,7 @@ function extractPromptSections(raw: string): { body: string; prompt: string } {
     else if (trimmed.startsWith("#")) content = trimmed.slice(1);
     else if (trimmed.startsWith("--")) content = trimmed.slice(2);
 
-    if (content !== null && !matchImportPath(line)) {
+    if (content !== null && !matchImportMarker(line)) {
       promptLines.push(content.trim());
       idx--;
     } else {
@@ -409,22 +1308,30 @@ function extractPromptSections(raw: string): { body: string; prompt: string } {
 
 // --- Block Management ---
 
-function buildBlockState(files: Map<string, string>): BlockState {
-  let nextId = 0;
+function buildBlockState(
+  files: Map<string, string>,
+  firstId = 0,
+): BlockState {
+  let nextId = firstId;
   const fileGroups: FileBlockGroup[] = [];
   const blockMap = new Map<number, BlockEntry>();
 
   for (const [file, content] of files.entries()) {
-    const rawBlocks = content.split(/\n\n+/).filter((b) => b.trim());
     const blocks: BlockEntry[] = [];
 
-    for (const blockContent of rawBlocks) {
-      const block: BlockEntry = { id: nextId++, file, content: blockContent };
+    for (const { start, end } of splitBlocks(content, file)) {
+      const block: BlockEntry = {
+        id: nextId++,
+        file,
+        content: content.slice(start, end),
+        start,
+        end,
+      };
       blocks.push(block);
       blockMap.set(block.id, block);
     }
 
-    fileGroups.push({ file, blocks });
+    fileGroups.push({ file, content, blocks });
   }
 
   return { files: fileGroups, blockMap };
@@ -498,49 +1405,307 @@ function parseCommands(response: string): EditCommand[] {
   return commands;
 }
 
-function applyCommands(
+/**
+ * Turns commands into per-file changes. Files are named relative to `root`;
+ * a write or delete outside the root is rejected.
+ */
+function planChanges(
   commands: EditCommand[],
   state: BlockState,
   fs: FileSystem,
+  root: string,
 ) {
   return Effect.gen(function* () {
-    const messages: string[] = [];
-    const filePatches = new Map<string, Map<number, string>>();
+    const changes = new Map<string, FileChange>();
+    const readCurrent = (file: string) =>
+      Effect.gen(function* () {
+        const group = state.files.find((f) => f.file === file);
+        if (group) return group.content;
+        const absPath = path.resolve(root, file);
+        if (!(yield* fs.exists(absPath))) return null;
+        return yield* fs.readFile(absPath);
+      });
 
     for (const cmd of commands) {
       if (cmd.type === "patch") {
         const block = state.blockMap.get(cmd.blockId);
         if (!block) continue;
-        if (!filePatches.has(block.file)) {
-          filePatches.set(block.file, new Map());
+        const group = state.files.find((f) => f.file === block.file)!;
+        const change = changes.get(block.file) ?? {
+          file: block.file,
+          kind: "patch",
+          before: group.content,
+          after: group.content,
+          edits: [],
+        };
+        // A later write or delete of the same file supersedes its patches.
+        if (change.kind !== "patch") continue;
+        change.edits = [
+          ...change.edits.filter((e) => e.start !== block.start),
+          {
+            start: block.start,
+            end: block.end,
+            oldText: block.content,
+            newText: cmd.content,
+          },
+        ].sort((x, y) => x.start - y.start);
+        change.after = spliceEdits(group.content, change.edits);
+        changes.set(block.file, change);
+      } else {
+        const file = projectPath(root, cmd.file);
+        if (!file) {
+          return yield* Effect.fail(
+            new ParseError(
+              `Refusing to ${cmd.type} ${cmd.file}: it is outside ${root}`,
+            ),
+          );
         }
-        filePatches.get(block.file)!.set(block.id, cmd.content);
-      } else if (cmd.type === "write") {
-        yield* fs.writeFile(cmd.file, cmd.content);
-        messages.push(`wrote ${cmd.file}`);
-      } else if (cmd.type === "delete") {
-        yield* fs.writeFile(cmd.file, "");
-        messages.push(`deleted ${cmd.file}`);
+        changes.set(file, {
+          file,
+          kind: cmd.type,
+          before: yield* readCurrent(file),
+          after: cmd.type === "write" ? cmd.content : null,
+          edits: [],
+        });
       }
     }
 
-    for (const [file, patches] of filePatches.entries()) {
-      const group = state.files.find((f) => f.file === file);
-      if (!group) continue;
+    return [...changes.values()];
+  });
+}
+
+function spliceEdits(content: string, edits: BlockEdit[]): string {
+  let result = "";
+  let cursor = 0;
+  for (const edit of edits) {
+    result += content.slice(cursor, edit.start) + edit.newText;
+    cursor = edit.end;
+  }
+  return result + content.slice(cursor);
+}
+
+/**
+ * Writes every change in one transaction: a failure rolls back all of them.
+ * The snapshots name files by absolute path.
+ */
+function applyChanges(changes: FileChange[], fs: FileSystem, root: string) {
+  return Effect.gen(function* () {
+    const snapshots = yield* applyTransaction(
+      fs,
+      changes.map((change) => ({
+        file: path.resolve(root, change.file),
+        contents: change.after,
+      })),
+    );
+
+    const verb = { patch: "patched", write: "wrote", delete: "deleted" };
+    return {
+      messages: changes.map((change) => `${verb[change.kind]} ${change.file}`),
+      snapshots,
+    };
+  });
+}
+
+// --- Diff Preview & Review ---
+
+const VERBS = { patch: "Patch", write: "Write", delete: "Delete" };
 
-      const updated = group.blocks
-        .map((b) => patches.get(b.id) ?? b.content)
-        .join("\n\n");
+const CHOICE_LABELS: Record<string, string> = {
+  y: "[y]es",
+  n: "[n]o",
+  e: "[e]dit",
+  h: "[h]unks",
+};
 
-      yield* fs.writeFile(file, updated);
-      messages.push(`patched ${file}`);
+function changeHunks(change: FileChange): DiffHunk[] {
+  return diffHunks(change.before ?? "", change.after ?? "");
+}
+
+function changeDiff(change: FileChange, hunks = changeHunks(change)): string {
+  return formatUnifiedDiff(
+    change.before === null ? "/dev/null" : `a/${change.file}`,
+    change.after === null ? "/dev/null" : `b/${change.file}`,
+    hunks,
+  );
+}
+
+async function showDiff(diff: string): Promise<void> {
+  process.stdout.write(
+    process.stdout.isTTY ? await highlightCode(diff, "diff") : diff,
+  );
+}
+
+/**
+ * Asks until the user answers with one of the single-letter `choices`.
+ * Reading from the line iterator (rather than `rl.question`) keeps piped
+ * answers that arrive early; end of input counts as "n".
+ */
+async function askChoice(
+  lines: AsyncIterator<string>,
+  question: string,
+  choices: string,
+): Promise<string> {
+  const labels = [...choices].map((c) => CHOICE_LABELS[c]).join("/");
+  while (true) {
+    process.stdout.write(`${question} ${labels}? `);
+    const line = await lines.next();
+    if (line.done) return "n";
+    const answer = line.value.trim().toLowerCase();
+    if (answer.length === 1 && choices.includes(answer)) return answer;
+  }
+}
+
+/** Opens `text` in $VISUAL/$EDITOR and returns what the user saved. */
+function editText(text: string, file: string): string {
+  const tmp = path.join(
+    os.tmpdir(),
+    `refactor-${Date.now()}-${path.basename(file)}`,
+  );
+  writeFileSync(tmp, text);
+  try {
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+    spawnSync(`${editor} "${tmp}"`, { shell: true, stdio: "inherit" });
+    return readFileSync(tmp, "utf8");
+  } finally {
+    unlinkSync(tmp);
+  }
+}
+
+async function reviewHunks(
+  lines: AsyncIterator<string>,
+  change: FileChange,
+  hunks: DiffHunk[],
+) {
+  const accepted: DiffHunk[] = [];
+  for (const [index, hunk] of hunks.entries()) {
+    await showDiff(formatHunk(hunk) + "\n");
+    const answer = await askChoice(
+      lines,
+      `Hunk ${index + 1}/${hunks.length} of ${change.file}:`,
+      "yne",
+    );
+    if (answer === "y") accepted.push(hunk);
+    if (answer === "e") {
+      accepted.push(replaceHunkText(hunk, editText(hunkText(hunk), change.file)));
     }
+  }
+  return accepted;
+}
+
+/**
+ * Shows each change as a diff and asks whether to apply it. Files can be
+ * accepted whole, edited in $EDITOR, or split into hunks that are accepted,
+ * rejected or edited one by one. Returns the changes that remain.
+ */
+async function reviewChanges(changes: FileChange[]): Promise<FileChange[]> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const lines = rl[Symbol.asyncIterator]();
+  const approved: FileChange[] = [];
+
+  try {
+    for (const change of changes) {
+      const hunks = changeHunks(change);
+      if (hunks.length === 0) continue;
+      await showDiff(changeDiff(change, hunks));
+
+      const choices =
+        change.kind === "delete" ? "yn" : hunks.length > 1 ? "yneh" : "yne";
+      const answer = await askChoice(
+        lines,
+        `${VERBS[change.kind]} ${change.file}:`,
+        choices,
+      );
 
-    return messages;
+      if (answer === "y") {
+        approved.push(change);
+      } else if (answer === "e") {
+        const after = editText(change.after ?? "", change.file);
+        approved.push({ ...change, after });
+      } else if (answer === "h") {
+        const accepted = await reviewHunks(lines, change, hunks);
+        if (accepted.length > 0) {
+          const after = applyHunks(change.before ?? "", accepted);
+          approved.push({ ...change, after });
+        }
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  return approved;
+}
+
+/**
+ * Reports changes against the files as they are on disk. The entry file was
+ * edited without its surrounding blank lines and task comments, so its edits
+ * are shifted past them and their removal is reported as well.
+ */
+function toProposedChanges(
+  changes: FileChange[],
+  root: string,
+  entry: { file: string; content: string },
+): ProposedChange[] {
+  return changes.flatMap((change): ProposedChange[] => {
+    const file = path.resolve(root, change.file);
+    const before = change.before ?? "";
+    const current = change.file === entry.file ? entry.content : before;
+    if (change.kind === "patch") {
+      const offset = Math.max(0, current.indexOf(before));
+      const tail = offset + before.length;
+      const edits: BlockEdit[] = [
+        {
+          start: 0,
+          end: offset,
+          oldText: current.slice(0, offset),
+          newText: "",
+        },
+        ...change.edits.map((edit) => ({
+          ...edit,
+          start: edit.start + offset,
+          end: edit.end + offset,
+        })),
+        {
+          start: tail,
+          end: current.length,
+          oldText: current.slice(tail),
+          newText: "",
+        },
+      ];
+      return edits
+        .filter((edit) => edit.oldText !== edit.newText)
+        .map((edit) => ({
+          file,
+          kind: "edit",
+          range: rangeOf(current, edit.start, edit.end),
+          oldText: edit.oldText,
+          newText: edit.newText,
+        }));
+    }
+    return [
+      {
+        file,
+        kind:
+          change.kind === "delete"
+            ? "delete"
+            : change.before === null
+              ? "create"
+              : "edit",
+        range: rangeOf(current, 0, current.length),
+        oldText: current,
+        newText: change.after ?? "",
+      },
+    ];
   });
 }
 
-runMain(main).catch((err) => {
+// Long runs ride out rate limits instead of losing the edits made so far.
+runMain(main.pipe(Effect.scoped), {
+  retry: { retries: 6, maxDelay: 60_000 },
+}).catch((err) => {
   console.error(err);
   process.exit(1);
 });
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { ApiError } from "../errors/index.ts";
+import { isRateLimited, isTransient, retryAfter } from "./retry.ts";
+
+describe("retry", () => {
+  const now = Date.parse("2026-10-19T12:00:00Z");
+
+  test("reads the wait from Retry-After or the rate limit reset", () => {
+    expect(retryAfter(new Headers({ "retry-after": "3" }), now)).toBe(3000);
+    expect(
+      retryAfter(
+        new Headers({ "retry-after": "Mon, 19 Oct 2026 12:00:10 GMT" }),
+        now,
+      ),
+    ).toBe(10_000);
+    expect(
+      retryAfter(
+        new Headers({
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": String(now / 1000 + 20),
+        }),
+        now,
+      ),
+    ).toBe(20_000);
+    expect(
+      retryAfter(
+        new Headers({
+          "x-ratelimit-remaining": "12",
+          "x-ratelimit-reset": String(now / 1000 + 20),
+        }),
+        now,
+      ),
+    ).toBeUndefined();
+  });
+
+  test("treats unanswered, overloaded and rate-limited calls as transient", () => {
+    expect(isTransient(new ApiError("connection refused"))).toBe(true);
+    expect(isTransient(new ApiError("busy", 503))).toBe(true);
+    expect(isTransient(new ApiError("slow down", 429))).toBe(true);
+    expect(isTransient(new ApiError("limited", 403, 1000))).toBe(true);
+    expect(isTransient(new ApiError("forbidden", 403))).toBe(false);
+    expect(isTransient(new ApiError("bad request", 400))).toBe(false);
+    expect(isRateLimited(new ApiError("slow down", 429))).toBe(true);
+    expect(isRateLimited(new ApiError("busy", 503))).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import * as Duration from "effect/Duration";
+import * as Schedule from "effect/Schedule";
+import { ApiError } from "../errors/index.ts";
+
+export interface RetryPolicy {
+  /** Attempts after the first one; 0 turns retrying off. */
+  retries: number;
+  /** Delay before the first retry in milliseconds; it doubles with each retry. */
+  baseDelay: number;
+  /**
+   * Longest wait before one retry in milliseconds. When the API asks for a
+   * longer one, the call fails instead of hanging.
+   */
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 4,
+  baseDelay: 500,
+  maxDelay: 30_000,
+};
+
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Whether the API turned a call away unprocessed because of a rate limit
+ * (GitHub answers 403 with a reset time for that), so that repeating it is
+ * harmless whatever the call does.
+ */
+export const isRateLimited = (err: unknown): err is ApiError =>
+  err instanceof ApiError &&
+  (err.status === 429 || (err.status === 403 && err.retryAfter !== undefined));
+
+/**
+ * Whether a failed Copilot API call may succeed when repeated: the request
+ * never got a response, the API was briefly unavailable, or it rate-limited
+ * the caller.
+ */
+export const isTransient = (err: unknown): err is ApiError =>
+  isRateLimited(err) ||
+  (err instanceof ApiError &&
+    (err.status === undefined || TRANSIENT_STATUSES.has(err.status)));
+
+/**
+ * Milliseconds the response asks the client to wait, from `Retry-After`
+ * (seconds or an HTTP date) or, once the rate limit is used up, from
+ * `x-ratelimit-reset` (epoch seconds).
+ */
+export function retryAfter(
+  headers: Headers,
+  now = Date.now(),
+): number | undefined {
+  const header = headers.get("retry-after")?.trim();
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+  if (headers.get("x-ratelimit-remaining") === "0") {
+    const reset = Number(headers.get("x-ratelimit-reset"));
+    if (reset > 0) return Math.max(0, reset * 1000 - now);
+  }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter, capped at `policy.maxDelay`, that waits at
+ * least as long as the API asked. It stops on failures `retryable` rejects
+ * and on waits longer than the policy allows.
+ */
+export const retrySchedule = (
+  policy: RetryPolicy,
+  retryable: (err: unknown) => boolean = isTransient,
+) =>
+  Schedule.exponential(Duration.millis(policy.baseDelay)).pipe(
+    Schedule.jittered,
+    Schedule.modifyDelay((_, delay) =>
+      Duration.min(delay, Duration.millis(policy.maxDelay)),
+    ),
+    Schedule.zipLeft(Schedule.recurs(policy.retries)),
+    Schedule.zipRight(Schedule.identity<unknown>()),
+    Schedule.whileInput(
+      (err) => retryable(err) && requestedDelay(err) <= policy.maxDelay,
+    ),
+    Schedule.modifyDelay((err, delay) =>
+      Duration.max(delay, Duration.millis(requestedDelay(err))),
+    ),
+  );
+
+const requestedDelay = (err: unknown) =>
+  err instanceof ApiError ? (err.retryAfter ?? 0) : 0;
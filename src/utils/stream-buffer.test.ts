@@ -128,4 +128,15 @@ describe("StreamBuffer", () => {
     expect(output).toContain("\x1b[");
     expect(output).not.toContain("```");
   });
+
+  test("dims reasoning and starts the reply on a new line", async () => {
+    let output = "";
+    const buffer = await Effect.runPromise(
+      StreamBuffer.create((text) => { output += text; }, highlighter),
+    );
+
+    await Effect.runPromise(buffer.writeReasoning("Checking the files"));
+    await Effect.runPromise(buffer.write("Done"));
+    expect(output).toBe("\x1b[2mChecking the files\x1b[22m\n\nDone");
+  });
 });
@@ -20,19 +20,26 @@ const initialState: BufferState = {
   pending: "",
 };
 
+const DIM = "\x1b[2m";
+const UNDIM = "\x1b[22m";
+
 export class StreamBuffer {
   private readonly onWrite: (text: string) => void;
   private readonly highlighter: SyntaxHighlighter;
   private readonly ref: Ref.Ref<BufferState>;
+  /** Whether the last output was dimmed reasoning. */
+  private readonly reasoning: Ref.Ref<boolean>;
 
   private constructor(
     onWrite: (text: string) => void,
     highlighter: SyntaxHighlighter,
     ref: Ref.Ref<BufferState>,
+    reasoning: Ref.Ref<boolean>,
   ) {
     this.onWrite = onWrite;
     this.highlighter = highlighter;
     this.ref = ref;
+    this.reasoning = reasoning;
   }
 
   static create(
@@ -41,7 +48,8 @@ export class StreamBuffer {
   ): Effect.Effect<StreamBuffer, never> {
     return Effect.gen(function* () {
       const ref = yield* Ref.make(initialState);
-      return new StreamBuffer(onWrite, highlighter, ref);
+      const reasoning = yield* Ref.make(false);
+      return new StreamBuffer(onWrite, highlighter, ref, reasoning);
     });
   }
 
@@ -209,9 +217,17 @@ export class StreamBuffer {
     return this.processCodeBlockState(current);
   }
 
+  /** Writes reasoning dimmed; the reply that follows starts on a new line. */
+  writeReasoning(chunk: string): Effect.Effect<void> {
+    return Effect.sync(() => this.onWrite(DIM + chunk + UNDIM)).pipe(
+      Effect.zipRight(Ref.set(this.reasoning, true)),
+    );
+  }
+
   write(chunk: string): Effect.Effect<void, HighlightError> {
     const self = this;
     return Effect.gen(function* () {
+      if (yield* Ref.getAndSet(self.reasoning, false)) self.onWrite("\n\n");
       yield* Ref.update(self.ref, (s) => ({ ...s, pending: s.pending + chunk }));
 
       let shouldContinue = true;
@@ -244,6 +260,7 @@ export class StreamBuffer {
       }
 
       yield* Ref.set(self.ref, initialState);
+      yield* Ref.set(self.reasoning, false);
     });
   }
 }
@@ -43,6 +43,7 @@ const SUPPORTED_LANGUAGES = [
   "yaml",
   "xml",
   "markdown",
+  "diff",
   "plaintext",
 ] as const;
 
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { countTokens, getTokenCounter } from "./tokenizer.ts";
+
+describe("tokenizer", () => {
+  const text = "export function add(a: number, b: number) { return a + b; }";
+
+  test("uses the encoding reported by the model", () => {
+    const o200k = countTokens(text, { id: "gpt-4o", tokenizer: "o200k_base" });
+    const cl100k = countTokens(text, { id: "gpt-4", tokenizer: "cl100k_base" });
+
+    expect(getTokenCounter({ id: "gpt-4", tokenizer: "cl100k_base" }).name).toBe(
+      "cl100k_base",
+    );
+    expect(o200k).toBeGreaterThan(0);
+    expect(cl100k).toBeGreaterThan(0);
+    expect(countTokens(text)).toBe(o200k);
+  });
+
+  test("estimates non-OpenAI families from the base encoding", () => {
+    const base = countTokens(text, { id: "gpt-4o", tokenizer: "o200k_base" });
+    const claude = getTokenCounter({ id: "claude-3.5", tokenizer: "c200k_base" });
+
+    expect(claude.name).toBe("claude~o200k_base");
+    expect(claude.count(text)).toBe(Math.ceil(base * 1.15));
+  });
+
+  test("caches counters per tokenizer and model", () => {
+    const model = { id: "gemini-2.0-flash", tokenizer: "o200k_base" };
+
+    expect(getTokenCounter(model)).toBe(getTokenCounter(model));
+    expect(getTokenCounter(model).name).toBe("gemini~o200k_base");
+  });
+});
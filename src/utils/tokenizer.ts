@@ -1,10 +1,85 @@
-import { encode } from "gpt-tokenizer";
-
-export function countTokens(text: string): number {
-  try {
-    return encode(text).length;
-  } catch {
-    // Heuristic fallback: ~4 chars per token.
-    return Math.ceil(text.length / 4);
+import { GptEncoding } from "gpt-tokenizer/GptEncoding";
+import { encodingNames, type EncodingName } from "gpt-tokenizer/mapping";
+import { resolveEncoding } from "gpt-tokenizer/resolveEncoding";
+import type { CopilotModel } from "../api/models.ts";
+
+export type TokenizerSource = Pick<CopilotModel, "id" | "tokenizer">;
+
+export interface TokenCounter {
+  readonly name: string;
+  readonly count: (text: string) => number;
+}
+
+const DEFAULT_ENCODING: EncodingName = "o200k_base";
+
+/**
+ * Non-OpenAI tokenizers are not bundled, so their counts are estimated from
+ * o200k_base using the approximate ratio of each family's token count to
+ * o200k_base on mixed code and prose.
+ */
+const FAMILY_ESTIMATORS: { family: string; pattern: RegExp; ratio: number }[] =
+  [
+    { family: "claude", pattern: /claude|anthropic|^c\d+k/i, ratio: 1.15 },
+    { family: "gemini", pattern: /gemini|gemma/i, ratio: 1.05 },
+  ];
+
+const encoders = new Map<EncodingName, GptEncoding>();
+const counters = new Map<string, TokenCounter>();
+
+function getEncoder(name: EncodingName): GptEncoding {
+  const cached = encoders.get(name);
+  if (cached) return cached;
+  const encoder = GptEncoding.getEncodingApi(name, resolveEncoding);
+  encoders.set(name, encoder);
+  return encoder;
+}
+
+function isEncodingName(name: string): name is EncodingName {
+  return (encodingNames as readonly string[]).includes(name);
+}
+
+function encodingCounter(name: EncodingName): TokenCounter {
+  return {
+    name,
+    count: (text) => {
+      try {
+        return getEncoder(name).encode(text).length;
+      } catch {
+        // Heuristic fallback: ~4 chars per token.
+        return Math.ceil(text.length / 4);
+      }
+    },
+  };
+}
+
+function resolveCounter(tokenizer: string, modelId: string): TokenCounter {
+  const estimator = FAMILY_ESTIMATORS.find(
+    ({ pattern }) => pattern.test(tokenizer) || pattern.test(modelId),
+  );
+  if (estimator) {
+    const base = encodingCounter(DEFAULT_ENCODING);
+    return {
+      name: `${estimator.family}~${DEFAULT_ENCODING}`,
+      count: (text) => Math.ceil(base.count(text) * estimator.ratio),
+    };
   }
+  return encodingCounter(isEncodingName(tokenizer) ? tokenizer : DEFAULT_ENCODING);
+}
+
+/**
+ * Returns the token counter for a model's reported tokenizer, falling back
+ * to a family estimator or the default encoding for unknown names.
+ */
+export function getTokenCounter(model?: TokenizerSource): TokenCounter {
+  const tokenizer = model?.tokenizer || DEFAULT_ENCODING;
+  const key = `${tokenizer}:${model?.id ?? ""}`;
+  const cached = counters.get(key);
+  if (cached) return cached;
+  const counter = resolveCounter(tokenizer, model?.id ?? "");
+  counters.set(key, counter);
+  return counter;
+}
+
+export function countTokens(text: string, model?: TokenizerSource): number {
+  return getTokenCounter(model).count(text);
 }